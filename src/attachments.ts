@@ -0,0 +1,240 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readFileSync, realpathSync, statSync } from "fs";
+import { homedir } from "os";
+import { basename, delimiter, extname, isAbsolute, relative, resolve } from "path";
+import { fileURLToPath } from "url";
+import { BearParams } from "./bear-client.js";
+import { envInteger } from "./env.js";
+
+// Base64 grows files by a third and percent-encoding its + and / adds a few
+// percent more, so files up to this size fit the 960 KB attachment URL
+// limit, itself set by how long a command line macOS accepts
+const DEFAULT_MAX_BYTES = 640 * 1024;
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+const DATA_URI = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+// File signatures for naming base64 data that arrives without a filename
+const SIGNATURES: Array<{ bytes: number[]; ext: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], ext: ".png" },
+  { bytes: [0xff, 0xd8, 0xff], ext: ".jpg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], ext: ".gif" },
+  { bytes: [0x25, 0x50, 0x44, 0x46], ext: ".pdf" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], ext: ".zip" },
+];
+
+export interface AttachmentPolicyOptions {
+  allowedDirs?: string[];
+  maxBytes?: number;
+}
+
+export interface Attachment {
+  // Base64 of the file contents, as Bear's `file` parameter expects
+  data: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  source: "path" | "base64" | "data-uri";
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path;
+}
+
+function mimeFor(filename: string): string {
+  return MIME_TYPES[extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+function extensionFor(mimeType: string): string {
+  return Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ?? "";
+}
+
+function sniffExtension(data: Buffer): string {
+  const match = SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => data[i] === byte));
+  return match?.ext ?? "";
+}
+
+// Decides which local files may be attached and how large attachments may be
+export class AttachmentPolicy {
+  readonly allowedDirs: string[];
+  readonly maxBytes: number;
+
+  constructor(options: AttachmentPolicyOptions = {}) {
+    this.allowedDirs = (options.allowedDirs ?? []).map((dir) => resolve(expandHome(dir)));
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  // BEAR_ATTACHMENT_DIRS lists directories separated like PATH; local paths
+  // are refused when it is empty
+  static fromEnv(): AttachmentPolicy {
+    return new AttachmentPolicy({
+      allowedDirs: (process.env.BEAR_ATTACHMENT_DIRS ?? "").split(delimiter).filter(Boolean),
+      maxBytes: envInteger("BEAR_ATTACHMENT_MAX_BYTES"),
+    });
+  }
+
+  // Checked before touching the file, so nothing is revealed about paths
+  // outside the allowed directories, and again after resolving symlinks, so
+  // a link inside an allowed directory can't point outside it
+  checkPath(path: string, kind: "file" | "directory" = "file"): string {
+    if (this.allowedDirs.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        kind === "file"
+          ? "Attaching local files is disabled. Set BEAR_ATTACHMENT_DIRS to the directories files may be read from, or pass the file as base64 or a data URI."
+          : "Reading local directories is disabled. Set BEAR_ATTACHMENT_DIRS to the directories files may be read from."
+      );
+    }
+
+    const label = kind === "file" ? "File" : "Directory";
+    const outside = () => new McpError(
+      ErrorCode.InvalidParams,
+      `${label} ${path} is outside the allowed attachment directories (${this.allowedDirs.join(", ")})`
+    );
+
+    const absolute = resolve(expandHome(path));
+    if (!this.contains(absolute)) {
+      throw outside();
+    }
+    if (!existsSync(absolute)) {
+      throw new McpError(ErrorCode.InvalidParams, `${label} not found: ${path}`);
+    }
+
+    const real = realpathSync(absolute);
+    if (!this.contains(real)) {
+      throw outside();
+    }
+    const stats = statSync(real);
+    if (kind === "file" ? !stats.isFile() : !stats.isDirectory()) {
+      throw new McpError(ErrorCode.InvalidParams, kind === "file" ? `Not a regular file: ${path}` : `Not a directory: ${path}`);
+    }
+    return real;
+  }
+
+  // Whether the path is inside an allowed directory, judged from the path alone
+  allows(path: string): boolean {
+    return this.contains(resolve(expandHome(path)));
+  }
+
+  private contains(path: string): boolean {
+    return this.allowedDirs.some((dir) => {
+      // Compare against the directory as configured and with symlinks resolved
+      const roots = existsSync(dir) ? [dir, realpathSync(dir)] : [dir];
+      return roots.some((root) => {
+        const rel = relative(root, path);
+        return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+      });
+    });
+  }
+
+  checkSize(size: number, label: string): void {
+    if (size > this.maxBytes) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${label} is ${size} bytes, over the ${this.maxBytes} byte attachment limit (BEAR_ATTACHMENT_MAX_BYTES)`
+      );
+    }
+  }
+}
+
+// A local path is anything explicitly path-shaped. Absolute paths are
+// ambiguous with base64 (JPEG data starts with "/9j/"), so those only count
+// as paths when they can't be base64 or lie inside an allowed directory.
+// This is decided from the string alone: looking at the file system first
+// would tell callers which files exist outside the allowed directories.
+function looksLikePath(file: string, policy: AttachmentPolicy): boolean {
+  if (file.startsWith("file://") || file.startsWith("~/") || file.startsWith("./") || file.startsWith("../")) {
+    return true;
+  }
+  return isAbsolute(file) && (!BASE64.test(file) || policy.allows(file));
+}
+
+function fromPath(file: string, filename: string | undefined, policy: AttachmentPolicy): Attachment {
+  const path = policy.checkPath(file.startsWith("file://") ? fileURLToPath(file) : file);
+  const size = statSync(path).size;
+  policy.checkSize(size, `File ${file}`);
+
+  const name = filename ?? basename(path);
+  return { data: readFileSync(path).toString("base64"), filename: name, mimeType: mimeFor(name), size, source: "path" };
+}
+
+function fromBase64(data: string, filename: string | undefined, mimeType: string | undefined, policy: AttachmentPolicy, source: Attachment["source"]): Attachment {
+  // Accept base64url and line-wrapped input, and restore missing padding
+  let normalized = data.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
+  normalized += "=".repeat((4 - (normalized.length % 4)) % 4);
+
+  if (!normalized || !BASE64.test(normalized)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "file must be a path inside an allowed directory, base64 data, or a data: URI"
+    );
+  }
+
+  // Check the size before decoding so oversized input is never buffered twice
+  const padding = normalized.length - normalized.replace(/=+$/, "").length;
+  policy.checkSize((normalized.length / 4) * 3 - padding, "Attachment");
+  const bytes = Buffer.from(normalized, "base64");
+
+  const name = filename ?? `attachment${(mimeType && extensionFor(mimeType)) || sniffExtension(bytes)}`;
+  return {
+    data: bytes.toString("base64"),
+    filename: name,
+    mimeType: mimeType || mimeFor(name),
+    size: bytes.length,
+    source,
+  };
+}
+
+export function resolveAttachment(file: string, filename?: string, policy = AttachmentPolicy.fromEnv()): Attachment {
+  const dataUri = DATA_URI.exec(file);
+  if (dataUri) {
+    const [, mimeType, , base64, payload] = dataUri;
+    let data = payload;
+    if (!base64) {
+      try {
+        data = Buffer.from(decodeURIComponent(payload)).toString("base64");
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, "Invalid data URI: malformed percent-encoding");
+      }
+    }
+    return fromBase64(data, filename, mimeType || undefined, policy, "data-uri");
+  }
+
+  if (looksLikePath(file, policy)) {
+    return fromPath(file, filename, policy);
+  }
+
+  return fromBase64(file, filename, undefined, policy, "base64");
+}
+
+// Registry `prepare` hook: replaces the `file` argument with base64 data and
+// fills in `filename`, which Bear needs to store the attachment
+export async function encodeFileParam(params: BearParams): Promise<BearParams> {
+  if (typeof params.file !== "string" || !params.file) {
+    return params;
+  }
+
+  const filename = typeof params.filename === "string" && params.filename ? params.filename : undefined;
+  const attachment = resolveAttachment(params.file, filename);
+  return { ...params, file: attachment.data, filename: attachment.filename };
+}
@@ -0,0 +1,142 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_MAX_ATTACHMENT_URL_LENGTH, DEFAULT_MAX_URL_LENGTH, validateBearURL } from "./bear-url.js";
+import { CallbackServer } from "./callback-server.js";
+import { DEFAULT_CHUNK_SIZE, needsChunking, writeChunked } from "./chunking.js";
+import { envInteger } from "./env.js";
+import { captureSnapshots, Journal, JOURNALED_ACTIONS } from "./journal.js";
+import { createLauncher, URLLauncher } from "./launcher.js";
+import { SQLiteReader } from "./sqlite-reader.js";
+import { redactToken, TokenProvider } from "./token.js";
+
+export type BearParams = Record<string, string | boolean>;
+
+export interface BearClientOptions {
+  launcher?: URLLauncher;
+  callbacks?: CallbackServer;
+  reader?: SQLiteReader;
+  tokens?: TokenProvider;
+  // Pass null to run without an undo journal
+  journal?: Journal | null;
+  maxURLLength?: number;
+  // Limit for URLs that carry a `file` attachment
+  maxAttachmentURLLength?: number;
+  // Encoded characters of text per URL before a write is split into chunks
+  chunkSize?: number;
+}
+
+export interface RunOptions {
+  // Record the call in the undo journal (default true for mutating actions)
+  journal?: boolean;
+}
+
+// Talks to Bear through its x-callback-url scheme, or through the SQLite
+// reader for the headless reads it supports
+export class BearClient {
+  readonly launcher: URLLauncher;
+  private callbacks: CallbackServer;
+  private reader?: SQLiteReader;
+  private tokens: TokenProvider;
+  readonly journal?: Journal;
+  readonly maxURLLength: number;
+  readonly maxAttachmentURLLength: number;
+  readonly chunkSize: number;
+
+  constructor(options: BearClientOptions = {}) {
+    this.launcher = options.launcher ?? createLauncher();
+    this.callbacks = options.callbacks ?? CallbackServer.fromEnv();
+    this.reader = options.reader ??
+      (process.env.BEAR_READ_BACKEND === "sqlite" ? new SQLiteReader(process.env.BEAR_DATABASE_PATH || undefined) : undefined);
+    this.tokens = options.tokens ?? TokenProvider.fromEnv(this.launcher);
+    this.journal = options.journal === null ? undefined : options.journal ?? Journal.fromEnv();
+    this.maxURLLength = options.maxURLLength ?? envInteger("BEAR_MAX_URL_LENGTH") ?? DEFAULT_MAX_URL_LENGTH;
+    // No setting can raise it past what the launcher can hand on
+    this.maxAttachmentURLLength = Math.min(
+      options.maxAttachmentURLLength ?? envInteger("BEAR_MAX_ATTACHMENT_URL_LENGTH") ?? DEFAULT_MAX_ATTACHMENT_URL_LENGTH,
+      this.launcher.maxURLLength ?? Infinity
+    );
+    this.chunkSize = options.chunkSize ?? envInteger("BEAR_CHUNK_SIZE") ?? DEFAULT_CHUNK_SIZE;
+  }
+
+  buildBearURL(action: string, params: BearParams = {}): string {
+    const baseURL = `bear://x-callback-url/${action}`;
+    const queryParts: string[] = [];
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null) {
+        const encodedKey = encodeURIComponent(key);
+        const encodedValue = encodeURIComponent(String(value));
+        queryParts.push(`${encodedKey}=${encodedValue}`);
+      }
+    }
+
+    const queryString = queryParts.join('&');
+    return queryString ? `${baseURL}?${queryString}` : baseURL;
+  }
+
+  async executeURL(url: string, maxLength = this.maxURLLength): Promise<void> {
+    validateBearURL(url, maxLength);
+
+    try {
+      await this.launcher.launch(url);
+    } catch (error) {
+      // Launcher errors can echo the command line, so never let the token through
+      throw new McpError(
+        ErrorCode.InternalError,
+        redactToken(`Failed to execute Bear URL: ${error instanceof Error ? error.message : String(error)}`)
+      );
+    }
+  }
+
+  // Fires an action without waiting for Bear to answer. Mutating actions are
+  // snapshotted into the undo journal first.
+  async run(action: string, params: BearParams = {}, options: RunOptions = {}): Promise<void> {
+    const journaled = this.journal && options.journal !== false && JOURNALED_ACTIONS.has(action);
+    const snapshots = journaled ? await captureSnapshots(this, action, params) : [];
+
+    if (needsChunking(action, params, this.chunkSize)) {
+      await writeChunked(this, action, params, this.chunkSize);
+    } else {
+      const authorized = await this.tokens.inject(action, params);
+      await this.executeURL(this.buildBearURL(action, authorized), this.urlLimit(params));
+    }
+
+    if (journaled) {
+      this.journal!.append(action, params, snapshots);
+    }
+  }
+
+  // Runs an action and resolves with the data Bear sends to x-success
+  async executeWithCallback(action: string, params: BearParams = {}): Promise<Record<string, any>> {
+    // Headless reads can be served from Bear's database without going through Bear
+    if (this.reader?.handles(action, params)) {
+      return this.reader.read(action, params);
+    }
+    // Long text is written in several calls
+    if (needsChunking(action, params, this.chunkSize)) {
+      return writeChunked(this, action, params, this.chunkSize);
+    }
+
+    const authorized = await this.tokens.inject(action, params);
+    const pending = await this.callbacks.register(action);
+    const bearUrl = this.buildBearURL(action, { ...authorized, ...pending.urls });
+
+    try {
+      await this.executeURL(bearUrl, this.urlLimit(params));
+    } catch (error) {
+      pending.dispose();
+      throw error;
+    }
+
+    return pending.result;
+  }
+
+  // Only attachments may use the larger limit
+  private urlLimit(params: BearParams): number {
+    return typeof params.file === "string" && params.file ? this.maxAttachmentURLLength : this.maxURLLength;
+  }
+
+  async close(): Promise<void> {
+    this.reader?.close();
+    await this.callbacks.close();
+  }
+}
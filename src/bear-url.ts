@@ -0,0 +1,63 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { redactToken } from "./token.js";
+
+// Room for one chunk of text (DEFAULT_CHUNK_SIZE) plus the note target and
+// callback URLs; Bear and the OS launchers start truncating not far above it
+export const DEFAULT_MAX_URL_LENGTH = 40000;
+
+// URLs carrying a `file` are the exception, up to what macOS `open` can be
+// passed (MAX_ARGUMENT_LENGTH in launcher.ts); BearClient lowers it further
+// for launchers that carry less
+export const DEFAULT_MAX_ATTACHMENT_URL_LENGTH = 960 * 1024;
+
+// Every action of Bear's x-callback-url scheme
+export const BEAR_ACTIONS: ReadonlySet<string> = new Set([
+  "open-note",
+  "create",
+  "add-text",
+  "add-file",
+  "tags",
+  "open-tag",
+  "rename-tag",
+  "delete-tag",
+  "trash",
+  "archive",
+  "untrash",
+  "untagged",
+  "todo",
+  "today",
+  "locked",
+  "search",
+  "grab-url",
+  "change-theme",
+  "change-font",
+]);
+
+const PREFIX = "bear://x-callback-url/";
+
+// Only well-formed Bear URLs for known actions ever reach a launcher: the
+// action is a single path segment and everything else is in the query string
+export function validateBearURL(url: string, maxLength = DEFAULT_MAX_URL_LENGTH): void {
+  if (!url.startsWith(PREFIX)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Refusing to launch a URL that is not a Bear x-callback URL: ${redactToken(url.slice(0, 80))}`);
+  }
+
+  const action = url.slice(PREFIX.length).split("?")[0];
+  if (!BEAR_ACTIONS.has(action)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Refusing to launch unknown Bear action: ${action.slice(0, 80)}`);
+  }
+
+  // Percent-encoding leaves only URL-safe characters; anything else means a
+  // value went in unencoded
+  const query = url.slice(PREFIX.length + action.length);
+  if (query && !/^\?[A-Za-z0-9\-._~%!*'()&=+]*$/.test(query)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Refusing to launch Bear URL with unencoded characters in its query (${action})`);
+  }
+
+  if (url.length > maxLength) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The Bear URL for "${action}" is ${url.length} characters, over the ${maxLength} character limit (BEAR_MAX_URL_LENGTH). Send less text or a smaller file per call.`
+    );
+  }
+}
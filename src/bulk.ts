@@ -0,0 +1,141 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { randomBytes } from "crypto";
+import { BearClient } from "./bear-client.js";
+import { openNote } from "./note-helpers.js";
+import { BearNote, normalizeNoteList, renderNoteList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { ArchiveNoteArgs, TrashNoteArgs } from "./schemas.js";
+
+// How long a preview's confirmation token stays valid
+const CONFIRMATION_TTL = 10 * 60 * 1000;
+
+export type BulkAction = "trash" | "archive";
+
+const PAST_TENSE: Record<BulkAction, string> = {
+  trash: "moved to trash",
+  archive: "archived",
+};
+
+export type BulkArgs = TrashNoteArgs | ArchiveNoteArgs;
+
+interface PendingOperation {
+  action: BulkAction;
+  query: string;
+  notes: BearNote[];
+  expires: number;
+}
+
+// Previews waiting for confirmation, keyed by their one-time token
+export class ConfirmationStore {
+  private pending = new Map<string, PendingOperation>();
+
+  create(action: BulkAction, query: string, notes: BearNote[]): { token: string; expires: number } {
+    this.prune();
+    const token = `${action}-${randomBytes(4).toString("hex")}`;
+    const expires = Date.now() + CONFIRMATION_TTL;
+    this.pending.set(token, { action, query, notes, expires });
+    return { token, expires };
+  }
+
+  take(token: string, action: BulkAction, query: string): PendingOperation {
+    this.prune();
+    const operation = this.pending.get(token);
+
+    if (!operation || operation.action !== action) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown or expired confirmation token: ${token}. Call again without confirm to get a fresh preview.`
+      );
+    }
+    if (operation.query !== query) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "The confirmation token was issued for a different id/search. Pass the same arguments as the preview."
+      );
+    }
+
+    this.pending.delete(token);
+    return operation;
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [token, operation] of this.pending) {
+      if (operation.expires <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+async function resolveTargets(bear: BearClient, args: BulkArgs): Promise<BearNote[]> {
+  if (args.id) {
+    const note = await openNote(bear, { id: args.id });
+    return [{ ...note, identifier: note.identifier || args.id, note: undefined }];
+  }
+
+  const results = await bear.executeWithCallback("search", { term: args.search!, show_window: "no" });
+  return normalizeNoteList(results);
+}
+
+// Trash and archive resolve the affected notes first and return a preview with
+// a confirmation token; only a second call carrying that token changes anything,
+// one note ID at a time.
+export async function runBulkAction(
+  action: BulkAction,
+  args: BulkArgs,
+  bear: BearClient,
+  store: ConfirmationStore
+): Promise<ToolResult> {
+  const query = JSON.stringify([args.id ?? null, args.search ?? null]);
+
+  if (!args.confirm) {
+    const notes = await resolveTargets(bear, args);
+    const listed = notes.map(({ identifier, title }) => ({ identifier, title }));
+
+    if (notes.length === 0) {
+      const message = `No notes match${args.search ? ` "${args.search}"` : ""}; nothing would be ${PAST_TENSE[action]}`;
+      return structuredResult({ message, dry_run: true, notes: [] }, message);
+    }
+
+    const { token, expires } = store.create(action, query, notes);
+    const message = `Dry run: ${notes.length} note(s) would be ${PAST_TENSE[action]}. ` +
+      `Call again with the same arguments and confirm: "${token}" to proceed.`;
+
+    return structuredResult(
+      { message, dry_run: true, confirm: token, expires_at: new Date(expires).toISOString(), notes: listed },
+      `${message}\n\n${renderNoteList(notes)}`
+    );
+  }
+
+  const operation = store.take(args.confirm, action, query);
+  const done: Array<{ identifier: string; title: string }> = [];
+  const failed: Array<{ identifier: string; title: string; error: string }> = [];
+
+  for (const note of operation.notes) {
+    try {
+      const params: Record<string, string> = { id: note.identifier };
+      if (args.show_window !== undefined) params.show_window = args.show_window ? "yes" : "no";
+      await bear.run(action, params);
+      done.push({ identifier: note.identifier, title: note.title });
+    } catch (error) {
+      failed.push({
+        identifier: note.identifier,
+        title: note.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const message = `${done.length} note(s) ${PAST_TENSE[action]}${failed.length ? `, ${failed.length} failed` : ""}`;
+  const lines = [
+    ...done.map((n) => `- ${n.title || "(untitled)"} [${n.identifier}]`),
+    ...failed.map((n) => `- FAILED ${n.title || "(untitled)"} [${n.identifier}]: ${n.error}`),
+  ];
+
+  // Any failure is reported as an error, so a partly applied batch isn't mistaken for a complete one
+  return {
+    ...structuredResult({ message, [action === "trash" ? "trashed" : "archived"]: done, failed }, `${message}\n\n${lines.join("\n")}`),
+    isError: failed.length > 0,
+  };
+}
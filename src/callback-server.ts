@@ -0,0 +1,261 @@
+import { randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { checkInteger, envInteger } from "./env.js";
+import { bearErrorFromCallback, UserCancelledError } from "./errors.js";
+import { toTagList } from "./notes.js";
+
+const DEFAULT_TIMEOUT = 10000;
+
+// Bear returns whole notes in the callback's query string, which quickly
+// outgrows Node's default 16 KB header limit
+const MAX_CALLBACK_URL_SIZE = 16 * 1024 * 1024;
+
+// HTML that immediately closes the browser window the callback opened
+const CLOSE_HTML = `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="refresh" content="0; url=about:blank">
+    <title>Bear MCP Callback</title>
+    <style>body { display: none; }</style>
+  </head>
+  <body>
+    <script>
+      // Multiple methods to close the window immediately
+      try {
+        window.close();
+        window.open('', '_self', '');
+        window.close();
+        setTimeout(() => window.close(), 1);
+        setTimeout(() => history.back(), 10);
+      } catch(e) {}
+    </script>
+  </body>
+  </html>
+`;
+
+export interface CallbackServerOptions {
+  port?: number;
+  defaultTimeout?: number;
+  timeouts?: Record<string, number>;
+}
+
+export interface CallbackURLs {
+  "x-success": string;
+  "x-error": string;
+  "x-cancel": string;
+}
+
+export interface PendingCallback {
+  id: string;
+  urls: CallbackURLs;
+  result: Promise<Record<string, any>>;
+  dispose(): void;
+}
+
+interface PendingEntry {
+  action: string;
+  timer: NodeJS.Timeout;
+  resolve: (data: Record<string, any>) => void;
+  reject: (error: Error) => void;
+}
+
+export function parseCallbackParams(searchParams: URLSearchParams): Record<string, any> {
+  const callbackData: Record<string, any> = {};
+
+  for (const [key, value] of searchParams.entries()) {
+    if (key === 'notes') {
+      // Handle JSON array parameters
+      try {
+        callbackData[key] = JSON.parse(value);
+      } catch {
+        // If JSON parsing fails, treat as regular string
+        callbackData[key] = value;
+      }
+    } else if (key === 'tags') {
+      // JSON array for most actions, comma-separated for some
+      callbackData[key] = toTagList(value);
+    } else if (key === 'is_trashed' || key === 'pin') {
+      // Handle boolean parameters
+      callbackData[key] = value === 'yes';
+    } else {
+      // Handle regular string parameters
+      callbackData[key] = value;
+    }
+  }
+
+  return callbackData;
+}
+
+// BEAR_CALLBACK_TIMEOUTS: per-action timeouts in milliseconds as a JSON object
+function parseTimeouts(value: string | undefined): Record<string, number> | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  let timeouts: unknown;
+  try {
+    timeouts = JSON.parse(value);
+  } catch {
+    // Reported below like any other malformed value
+  }
+  if (typeof timeouts !== "object" || timeouts === null || Array.isArray(timeouts)) {
+    throw new Error(`BEAR_CALLBACK_TIMEOUTS must be a JSON object of milliseconds per action, e.g. {"grab-url": 30000}`);
+  }
+  return Object.fromEntries(
+    Object.entries(timeouts).map(([action, ms]) => [action, checkInteger(`BEAR_CALLBACK_TIMEOUTS["${action}"]`, ms, {})])
+  );
+}
+
+// A single long-lived listener for Bear's x-callback URLs. Every request gets
+// its own correlation ID in the callback path, so concurrent tool calls are
+// routed back to the promise that is waiting for them.
+export class CallbackServer {
+  private server?: Server;
+  private listening?: Promise<number>;
+  private pending = new Map<string, PendingEntry>();
+  private defaultTimeout: number;
+  private timeouts: Record<string, number>;
+
+  constructor(private options: CallbackServerOptions = {}) {
+    this.defaultTimeout = options.defaultTimeout ?? DEFAULT_TIMEOUT;
+    this.timeouts = options.timeouts ?? {};
+  }
+
+  static fromEnv(): CallbackServer {
+    return new CallbackServer({
+      port: envInteger("BEAR_CALLBACK_PORT", { min: 0, max: 65535 }),
+      defaultTimeout: envInteger("BEAR_CALLBACK_TIMEOUT"),
+      timeouts: parseTimeouts(process.env.BEAR_CALLBACK_TIMEOUTS),
+    });
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  timeoutFor(action: string): number {
+    return this.timeouts[action] ?? this.defaultTimeout;
+  }
+
+  async register(action: string): Promise<PendingCallback> {
+    const port = await this.listen();
+    const id = randomUUID();
+    const base = `http://localhost:${port}/callback/${id}`;
+    const timeout = this.timeoutFor(action);
+
+    const result = new Promise<Record<string, any>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Callback timeout: Bear did not answer "${action}" within ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(id, { action, timer, resolve, reject });
+    });
+
+    return {
+      id,
+      urls: {
+        "x-success": `${base}/success`,
+        "x-error": `${base}/error`,
+        "x-cancel": `${base}/cancel`,
+      },
+      result,
+      dispose: () => this.settle(id),
+    };
+  }
+
+  async close(): Promise<void> {
+    for (const [id, entry] of this.pending) {
+      this.settle(id);
+      entry.reject(new Error(`Callback server closed while waiting for "${entry.action}"`));
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    this.listening = undefined;
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private listen(): Promise<number> {
+    if (!this.listening) {
+      this.listening = new Promise((resolve, reject) => {
+        const server = createServer({ maxHeaderSize: MAX_CALLBACK_URL_SIZE }, (req, res) => this.handle(req, res));
+        server.once("error", reject);
+        // Bear calls back on this machine only, so never listen on the network
+        server.listen(this.options.port ?? 0, "localhost", () => {
+          server.off("error", reject);
+          // Don't keep the process alive just for idle callbacks
+          server.unref();
+          resolve((server.address() as AddressInfo).port);
+        });
+        this.server = server;
+      });
+      this.listening.catch(() => {
+        this.listening = undefined;
+      });
+    }
+
+    return this.listening;
+  }
+
+  // Removes a pending request and stops its timer without settling it
+  private settle(id: string): PendingEntry | undefined {
+    const entry = this.pending.get(id);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(id);
+    }
+    return entry;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, prefix, id, kind] = url.pathname.split("/");
+    const entry = prefix === "callback" && id ? this.settle(id) : undefined;
+
+    if (!entry) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Unknown or expired callback');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/html',
+      'X-Frame-Options': 'DENY',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    });
+    res.end(CLOSE_HTML);
+
+    const searchParams = url.searchParams;
+
+    switch (kind) {
+      case "success":
+        try {
+          entry.resolve(parseCallbackParams(searchParams));
+        } catch (error) {
+          entry.reject(new Error(`Failed to parse callback data: ${error instanceof Error ? error.message : String(error)}`));
+        }
+        break;
+      case "error":
+        // Bear reports failures on x-error
+        entry.reject(bearErrorFromCallback(
+          searchParams.get('errorCode') ?? undefined,
+          searchParams.get('errorMessage') ?? undefined
+        ));
+        break;
+      case "cancel":
+        entry.reject(new UserCancelledError());
+        break;
+      default:
+        entry.reject(new Error(`Unexpected callback path: ${url.pathname}`));
+    }
+  }
+}
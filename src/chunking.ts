@@ -0,0 +1,126 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient, BearParams } from "./bear-client.js";
+import { FENCE, openNote } from "./note-helpers.js";
+
+// Percent-encoded characters of text per URL; well below where Bear and the
+// OS launchers start truncating
+export const DEFAULT_CHUNK_SIZE = 32000;
+
+// Actions whose `text` parameter is split across several URLs when too long
+const CHUNKED_ACTIONS: ReadonlySet<string> = new Set(["create", "add-text"]);
+
+// Parameters that address the note (and section) later chunks are added to
+const TARGET_PARAMS = ["id", "title", "header", "exclude_trashed"];
+
+function encodedSize(text: string): number {
+  return encodeURIComponent(text).length;
+}
+
+export function needsChunking(action: string, params: BearParams, chunkSize: number): boolean {
+  return CHUNKED_ACTIONS.has(action) && typeof params.text === "string" && encodedSize(params.text) > chunkSize;
+}
+
+// Markdown blocks end at a blank line outside fenced code. Each block keeps
+// its trailing newlines, so the blocks concatenate back to the exact text.
+function markdownBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current = "";
+  let fenced = false;
+
+  for (const line of text.split(/(?<=\n)/)) {
+    if (FENCE.test(line)) fenced = !fenced;
+    current += line;
+    if (!fenced && line.trim() === "") {
+      blocks.push(current);
+      current = "";
+    }
+  }
+  if (current) blocks.push(current);
+
+  return blocks;
+}
+
+// Splits a piece that is too large on its own: by line, then by character
+// (never inside a surrogate pair)
+function splitOversized(piece: string, max: number): string[] {
+  const parts = piece.split(/(?<=\n)/).length > 1 ? piece.split(/(?<=\n)/) : Array.from(piece);
+  return parts.flatMap((part) => (encodedSize(part) > max && part !== piece ? splitOversized(part, max) : [part]));
+}
+
+// Splits text into chunks of at most `max` encoded characters, preferring
+// Markdown block boundaries, then line boundaries
+export function splitMarkdown(text: string, max: number = DEFAULT_CHUNK_SIZE): string[] {
+  const pieces = markdownBlocks(text).flatMap((block) => (encodedSize(block) > max ? splitOversized(block, max) : [block]));
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const piece of pieces) {
+    const pieceSize = encodedSize(piece);
+    if (current && size + pieceSize > max) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += piece;
+    size += pieceSize;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+// Whitespace is compared loosely: Bear may normalize line breaks where chunks meet
+function squash(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Writes an oversized create/add-text as the first chunk followed by
+// sequential add-text calls, each waiting for Bear's x-success so the chunks
+// land in order, then reads the note back to check nothing was lost.
+// Resolves with Bear's answer to the first call.
+export async function writeChunked(
+  bear: BearClient,
+  action: string,
+  params: BearParams,
+  chunkSize: number
+): Promise<Record<string, any>> {
+  const text = String(params.text);
+  const mode = action === "add-text" ? String(params.mode ?? "append") : "append";
+  const chunks = splitMarkdown(text, chunkSize);
+  // Prepending the last chunk first leaves the pieces in order
+  const ordered = mode === "prepend" ? [...chunks].reverse() : chunks;
+
+  const first = await bear.executeWithCallback(action, { ...params, text: ordered[0] });
+
+  let target: BearParams;
+  if (action === "create") {
+    if (!first.identifier) {
+      throw new McpError(ErrorCode.InternalError, "Bear did not report the new note's identifier, so the rest of the text could not be added");
+    }
+    target = { id: String(first.identifier) };
+  } else {
+    target = Object.fromEntries(TARGET_PARAMS.filter((key) => params[key] !== undefined).map((key) => [key, params[key]]));
+  }
+
+  for (const chunk of ordered.slice(1)) {
+    await bear.executeWithCallback("add-text", {
+      ...target,
+      text: chunk,
+      mode: mode === "prepend" ? "prepend" : "append",
+      open_note: "no",
+      show_window: "no",
+    });
+  }
+
+  const content = (await openNote(bear, target)).note ?? "";
+
+  if (!squash(content).includes(squash(text))) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Wrote ${text.length} characters in ${chunks.length} chunks, but the note now holds ${content.length} characters and is missing part of the text`
+    );
+  }
+
+  return first;
+}
@@ -0,0 +1,71 @@
+import { BearClient } from "./bear-client.js";
+import { BearError } from "./errors.js";
+import { openNote } from "./note-helpers.js";
+import { BearNote, normalizeNoteList } from "./notes.js";
+
+export type CorpusNote = BearNote & { note: string };
+
+const corpora = new WeakMap<BearClient, NoteCorpus>();
+
+// Every note Bear lists for an empty search, without bodies
+export async function listAllNotes(bear: BearClient): Promise<BearNote[]> {
+  const listed = normalizeNoteList(await bear.executeWithCallback("search", { show_window: "no" }));
+  return listed.filter((note) => note.identifier);
+}
+
+// Resolves with undefined for notes that can't be read, such as locked ones
+export async function readNoteBody(bear: BearClient, identifier: string): Promise<string | undefined> {
+  try {
+    return (await openNote(bear, { id: identifier })).note ?? "";
+  } catch (error) {
+    if (error instanceof BearError) return undefined;
+    throw error;
+  }
+}
+
+// Every note with its body, for features that look across notes (links,
+// search). The note list is fetched on each load, but bodies are only
+// re-read for notes whose modification date changed since the last load.
+export class NoteCorpus {
+  private cache = new Map<string, CorpusNote>();
+
+  constructor(private bear: BearClient) {}
+
+  static for(bear: BearClient): NoteCorpus {
+    let corpus = corpora.get(bear);
+    if (!corpus) {
+      corpus = new NoteCorpus(bear);
+      corpora.set(bear, corpus);
+    }
+    return corpus;
+  }
+
+  async load(): Promise<CorpusNote[]> {
+    const current = new Map<string, CorpusNote>();
+
+    for (const note of await listAllNotes(this.bear)) {
+      const cached = this.cache.get(note.identifier);
+      if (cached && cached.modificationDate === note.modificationDate) {
+        current.set(note.identifier, { ...cached, ...note, note: cached.note });
+        continue;
+      }
+
+      const body = await readNoteBody(this.bear, note.identifier);
+      if (body !== undefined) {
+        current.set(note.identifier, { ...note, note: body });
+      }
+    }
+
+    this.cache = current;
+    return [...current.values()];
+  }
+
+  // Drops cached bodies, e.g. after notes were rewritten
+  invalidate(identifier?: string): void {
+    if (identifier) {
+      this.cache.delete(identifier);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
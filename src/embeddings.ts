@@ -0,0 +1,133 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { execFile } from "child_process";
+import { readFileSync, statSync } from "fs";
+
+const EMBED_BATCH_SIZE = 32;
+const EMBED_TIMEOUT = 120000;
+
+// Turns passages of text into vectors. Implementations can wrap any local
+// model; the index only needs the vectors to be comparable by cosine similarity.
+export interface Embedder {
+  // Identifies the model, so vectors from a different one get recomputed
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every((n) => typeof n === "number" && Number.isFinite(n));
+}
+
+// Runs a local program without a shell, writing a JSON array of strings to
+// its stdin and reading a JSON array of vectors, one per string, from stdout
+export class CommandEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(private command: string, private args: string[] = []) {
+    this.name = `command:${[command, ...args].join(" ")}`;
+  }
+
+  // BEAR_EMBEDDING_COMMAND names the program; BEAR_EMBEDDING_ARGS holds its
+  // arguments as a JSON array
+  static fromEnv(): CommandEmbedder | undefined {
+    const command = process.env.BEAR_EMBEDDING_COMMAND;
+    if (!command) {
+      return undefined;
+    }
+    let args: unknown;
+    try {
+      args = process.env.BEAR_EMBEDDING_ARGS ? JSON.parse(process.env.BEAR_EMBEDDING_ARGS) : [];
+    } catch {
+      // Reported below like any other malformed value
+    }
+    if (!Array.isArray(args) || !args.every((arg) => typeof arg === "string")) {
+      throw new McpError(ErrorCode.InvalidRequest, "BEAR_EMBEDDING_ARGS must be a JSON array of strings, e.g. [\"--model\", \"small\"]");
+    }
+    return new CommandEmbedder(command, args);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      vectors.push(...(await this.embedBatch(texts.slice(i, i + EMBED_BATCH_SIZE))));
+    }
+    return vectors;
+  }
+
+  private embedBatch(texts: string[]): Promise<number[][]> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        this.command,
+        this.args,
+        { timeout: EMBED_TIMEOUT, maxBuffer: 64 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new McpError(ErrorCode.InternalError, `Embedding command failed: ${stderr.trim() || error.message}`));
+            return;
+          }
+          try {
+            const vectors = JSON.parse(stdout);
+            if (!Array.isArray(vectors) || vectors.length !== texts.length || !vectors.every(isVector)) {
+              throw new Error(`expected ${texts.length} vector(s)`);
+            }
+            resolve(vectors);
+          } catch (parseError) {
+            reject(new McpError(
+              ErrorCode.InternalError,
+              `Embedding command returned invalid output: ${parseError instanceof Error ? parseError.message : String(parseError)}`
+            ));
+          }
+        }
+      );
+      child.stdin?.end(JSON.stringify(texts));
+    });
+  }
+}
+
+// Vectors computed ahead of time, keyed by note identifier or by
+// "identifier#Header > Path" for single sections
+export class PrecomputedVectors {
+  private vectors: Record<string, number[]> = {};
+  private loadedAt = 0;
+
+  constructor(readonly path: string) {}
+
+  static fromEnv(): PrecomputedVectors | undefined {
+    return process.env.BEAR_EMBEDDINGS_PATH ? new PrecomputedVectors(process.env.BEAR_EMBEDDINGS_PATH) : undefined;
+  }
+
+  lookup(identifier: string, headerPath: string): number[] | undefined {
+    return (headerPath ? this.vectors[`${identifier}#${headerPath}`] : undefined) ?? this.vectors[identifier];
+  }
+
+  // Rereads the file if it changed since the last call
+  load(): void {
+    try {
+      const modified = statSync(this.path).mtimeMs;
+      if (modified === this.loadedAt) return;
+
+      const data = JSON.parse(readFileSync(this.path, "utf8"));
+      this.vectors = Object.fromEntries(Object.entries(data ?? {}).filter(([, vector]) => isVector(vector))) as Record<string, number[]>;
+      this.loadedAt = modified;
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read precomputed vectors ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
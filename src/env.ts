@@ -0,0 +1,18 @@
+// Numeric settings are read from the environment once, at startup. A value
+// that isn't a whole number in range fails loudly there: Number("10s") is NaN,
+// and NaN silently disables every comparison it takes part in.
+export function envInteger(name: string, range: { min?: number; max?: number } = {}): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  return checkInteger(name, raw, range);
+}
+
+export function checkInteger(name: string, value: unknown, { min = 1, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number }): number {
+  const number = typeof value === "string" && /^-?\d+$/.test(value) ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${name} must be a whole number from ${min} to ${max}, got ${JSON.stringify(value)}`);
+  }
+  return number;
+}
@@ -0,0 +1,90 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export type BearErrorKind = "NotFound" | "Locked" | "InvalidToken" | "UserCancelled" | "Unknown";
+
+// An error reported by Bear through its x-error or x-cancel callback
+export class BearError extends McpError {
+  constructor(
+    readonly kind: BearErrorKind,
+    code: number,
+    message: string,
+    readonly bearErrorCode?: string,
+    readonly bearErrorMessage?: string
+  ) {
+    super(code, message, { kind, errorCode: bearErrorCode, errorMessage: bearErrorMessage });
+  }
+}
+
+export class NotFoundError extends BearError {
+  constructor(bearErrorCode?: string, bearErrorMessage?: string) {
+    super(
+      "NotFound",
+      ErrorCode.InvalidParams,
+      `Bear could not find the requested note or tag${bearErrorMessage ? ` (${bearErrorMessage})` : ""}. Check the id or title, or use bear_search to look it up.`,
+      bearErrorCode,
+      bearErrorMessage
+    );
+  }
+}
+
+export class LockedError extends BearError {
+  constructor(bearErrorCode?: string, bearErrorMessage?: string) {
+    super(
+      "Locked",
+      ErrorCode.InvalidRequest,
+      `The note is locked${bearErrorMessage ? ` (${bearErrorMessage})` : ""}. Unlock it in Bear and try again; encrypted notes cannot be accessed via the API.`,
+      bearErrorCode,
+      bearErrorMessage
+    );
+  }
+}
+
+export class InvalidTokenError extends BearError {
+  constructor(bearErrorCode?: string, bearErrorMessage?: string) {
+    super(
+      "InvalidToken",
+      ErrorCode.InvalidParams,
+      `Bear rejected the API token${bearErrorMessage ? ` (${bearErrorMessage})` : ""}. Copy a fresh token from Help → Advanced → API Token in Bear.`,
+      bearErrorCode,
+      bearErrorMessage
+    );
+  }
+}
+
+export class UserCancelledError extends BearError {
+  constructor(bearErrorCode?: string, bearErrorMessage?: string) {
+    super(
+      "UserCancelled",
+      ErrorCode.InvalidRequest,
+      "The action was cancelled in Bear.",
+      bearErrorCode,
+      bearErrorMessage
+    );
+  }
+}
+
+// Bear does not document its error codes, so classify on the message text
+export function bearErrorFromCallback(errorCode?: string, errorMessage?: string): BearError {
+  const message = errorMessage ?? "";
+
+  if (/not found|couldn'?t find|could not find|does ?n[o']t exist|no such/i.test(message)) {
+    return new NotFoundError(errorCode, errorMessage);
+  }
+  if (/locked|encrypted|password/i.test(message)) {
+    return new LockedError(errorCode, errorMessage);
+  }
+  if (/token/i.test(message)) {
+    return new InvalidTokenError(errorCode, errorMessage);
+  }
+  if (/cancel/i.test(message)) {
+    return new UserCancelledError(errorCode, errorMessage);
+  }
+
+  return new BearError(
+    "Unknown",
+    ErrorCode.InternalError,
+    `Bear reported an error${errorCode ? ` (code ${errorCode})` : ""}: ${errorMessage || "no details given"}`,
+    errorCode,
+    errorMessage
+  );
+}
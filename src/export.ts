@@ -0,0 +1,199 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, mkdirSync, readdirSync, realpathSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+import { BearClient } from "./bear-client.js";
+import { BearError } from "./errors.js";
+import { stringifyFrontMatter } from "./front-matter.js";
+import { replaceWikiLinks, titleKey } from "./links.js";
+import { openNote } from "./note-helpers.js";
+import { BearNote, normalizeNoteList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { ExportArgs } from "./schemas.js";
+
+const ARCHIVE_FILE = "notes.json";
+const INDEX_FILE = "index.md";
+const MAX_FILENAME_LENGTH = 100;
+
+export function defaultExportDir(): string {
+  return join(homedir(), "Documents", "Bear Export");
+}
+
+// Exports are written below BEAR_EXPORT_DIR and nowhere else
+export function exportRoot(): string {
+  return resolve(process.env.BEAR_EXPORT_DIR || defaultExportDir());
+}
+
+export interface ExportedFile {
+  identifier: string;
+  title: string;
+  file: string;
+}
+
+function within(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+// Resolves the export directory inside the root, refusing to leave it,
+// including through symlinks, or to mix with files from an earlier export
+function resolveExportDir(root: string, directory: string, overwrite: boolean): string {
+  const target = resolve(root, directory);
+  const outside = () => new McpError(ErrorCode.InvalidParams, `directory must be a subdirectory of the export directory (${root})`);
+  if (target === root || !within(root, target)) {
+    throw outside();
+  }
+
+  // The closest existing parent is where mkdir would start, so a symlink
+  // there decides where the files really end up
+  let existing = target;
+  while (!existsSync(existing) && existing !== root) existing = dirname(existing);
+  if (existsSync(existing) && !within(realpathSync(root), realpathSync(existing))) {
+    throw outside();
+  }
+
+  if (existsSync(target) && !overwrite && readdirSync(target).length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${target} already contains files. Choose another directory or pass overwrite: true to replace them`
+    );
+  }
+
+  return target;
+}
+
+function timestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", "-").replace(/:/g, "");
+}
+
+// Keeps titles readable as filenames while dropping characters that are
+// special on macOS, Windows or in Markdown links
+export function noteFilename(title: string, fallback: string): string {
+  const name = title
+    .replace(/[\/\\:*?"<>|#\[\]\u0000-\u001f]/g, "-")
+    .replace(/\s+/g, " ")
+    .replace(/^[.\s-]+|[.\s]+$/g, "")
+    .slice(0, MAX_FILENAME_LENGTH)
+    .trim();
+  return name || fallback;
+}
+
+// GitHub-style heading anchor
+export function headingAnchor(header: string): string {
+  return header.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, "").replace(/\s/g, "-");
+}
+
+function linkPath(file: string): string {
+  return encodeURIComponent(file).replace(/[()]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+async function selectNotes(bear: BearClient, args: ExportArgs): Promise<{ notes: BearNote[]; failed: Array<{ identifier: string; error: string }> }> {
+  const identifiers: string[] = [...(args.ids ?? [])];
+  if (args.tag || args.search) {
+    const params: Record<string, string> = { show_window: "no" };
+    if (args.search) params.term = args.search;
+    if (args.tag) params.tag = args.tag.replace(/^#/, "");
+    identifiers.push(...normalizeNoteList(await bear.executeWithCallback("search", params)).map((note) => note.identifier));
+  }
+
+  const notes: BearNote[] = [];
+  const failed: Array<{ identifier: string; error: string }> = [];
+  for (const identifier of [...new Set(identifiers)].filter(Boolean)) {
+    try {
+      notes.push(await openNote(bear, { id: identifier }));
+    } catch (error) {
+      if (!(error instanceof BearError)) throw error;
+      failed.push({ identifier, error: error.message });
+    }
+  }
+  return { notes, failed };
+}
+
+// Writes the selected notes as Markdown files with YAML front matter into a
+// directory below the export root. [[Wikilinks]] between exported notes
+// become relative Markdown links; links to other notes are left as they are.
+export async function exportNotes(bear: BearClient, args: ExportArgs): Promise<ToolResult> {
+  const root = exportRoot();
+  const directory = resolveExportDir(root, args.directory ?? `bear-export-${timestamp(new Date())}`, args.overwrite ?? false);
+  const { notes, failed } = await selectNotes(bear, args);
+  if (notes.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `No notes matched the export${failed.length ? `; ${failed.length} could not be read` : ""}`);
+  }
+
+  // Case-insensitive, as on the default macOS file system
+  const taken = new Set([INDEX_FILE, ARCHIVE_FILE].map((file) => file.toLowerCase()));
+  const files: ExportedFile[] = notes.map((note) => {
+    const base = noteFilename(note.title, note.identifier);
+    let file = `${base}.md`;
+    for (let n = 2; taken.has(file.toLowerCase()); n++) file = `${base} (${n}).md`;
+    taken.add(file.toLowerCase());
+    return { identifier: note.identifier, title: note.title, file };
+  });
+
+  const fileByTitle = new Map<string, string>();
+  files.forEach(({ title, file }) => {
+    if (title && !fileByTitle.has(titleKey(title))) fileByTitle.set(titleKey(title), file);
+  });
+  const titles = new Set(fileByTitle.keys());
+
+  mkdirSync(directory, { recursive: true });
+  let linksRewritten = 0;
+
+  notes.forEach((note, i) => {
+    const body = replaceWikiLinks(note.note ?? "", ({ raw, title, header, alias }) => {
+      const file = fileByTitle.get(titleKey(title));
+      if (!file) return undefined;
+      linksRewritten++;
+      const label = alias ?? raw.split("|")[0].trim();
+      return `[${label}](${linkPath(file)}${header ? `#${headingAnchor(header)}` : ""})`;
+    }, titles);
+
+    const frontMatter = stringifyFrontMatter({
+      id: note.identifier,
+      title: note.title || undefined,
+      tags: note.tags,
+      created: note.creationDate,
+      modified: note.modificationDate,
+      pinned: note.pin || undefined,
+    });
+    writeFileSync(join(directory, files[i].file), `${frontMatter}\n${body}${body.endsWith("\n") ? "" : "\n"}`);
+  });
+
+  if (args.index) {
+    const entries = [...files]
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(({ title, file }) => `- [${title || file}](${linkPath(file)})`);
+    writeFileSync(join(directory, INDEX_FILE), `# Index\n\n${entries.join("\n")}\n`);
+  }
+
+  if (args.archive) {
+    const archive = {
+      exported_at: new Date().toISOString(),
+      selection: { tag: args.tag, search: args.search, ids: args.ids },
+      notes: notes.map((note, i) => ({ ...note, file: files[i].file })),
+    };
+    writeFileSync(join(directory, ARCHIVE_FILE), JSON.stringify(archive, null, 2));
+  }
+
+  const message = `Exported ${files.length} note(s) to ${directory}` +
+    (linksRewritten ? `, rewriting ${linksRewritten} link(s)` : "") +
+    (failed.length ? `; ${failed.length} note(s) could not be read` : "");
+  const lines = [
+    ...files.map((f) => `- ${f.file} [${f.identifier}]`),
+    ...(args.index ? [`- ${INDEX_FILE}`] : []),
+    ...(args.archive ? [`- ${ARCHIVE_FILE}`] : []),
+    ...failed.map((f) => `- [${f.identifier}] failed: ${f.error}`),
+  ];
+  return structuredResult(
+    {
+      message,
+      directory,
+      files,
+      index: args.index ? INDEX_FILE : undefined,
+      archive: args.archive ? ARCHIVE_FILE : undefined,
+      links_rewritten: linksRewritten,
+      failed,
+    },
+    `${message}\n\n${lines.join("\n")}`
+  );
+}
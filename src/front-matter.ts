@@ -0,0 +1,131 @@
+// A small YAML front matter reader and writer, covering what note files
+// actually use: scalars, quoted strings, booleans and lists of strings.
+
+export type FrontMatterValue = string | boolean | string[];
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+const DELIMITER = /^---\s*$/;
+const ENTRY = /^([A-Za-z0-9_][\w .-]*?)\s*:\s*(.*)$/;
+const LIST_ITEM = /^\s*-\s+(.*)$/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value.slice(1, -1).split(",").map(unquote).filter(Boolean);
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return unquote(value);
+}
+
+// Splits leading front matter from the body. Text without front matter comes
+// back unchanged with empty data.
+export function parseFrontMatter(text: string): { data: FrontMatter; body: string } {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (!DELIMITER.test(lines[0] ?? "")) {
+    return { data: {}, body: text };
+  }
+
+  const end = lines.findIndex((line, i) => i > 0 && DELIMITER.test(line));
+  if (end === -1) {
+    return { data: {}, body: text };
+  }
+
+  const data: FrontMatter = {};
+  // Keys written as "key:" with nothing after, which a block list may follow
+  const openKeys = new Set<string>();
+  let listKey: string | undefined;
+
+  for (const line of lines.slice(1, end)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = LIST_ITEM.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = ENTRY.exec(line);
+    if (!entry) continue;
+
+    const [, key, value] = entry;
+    if (value.trim() === "") {
+      // Either an empty value or the start of a block list
+      data[key] = [];
+      openKeys.add(key);
+      listKey = key;
+    } else {
+      data[key] = parseScalar(value);
+      listKey = undefined;
+    }
+  }
+
+  // Keys that never got list items were just empty; an explicit [] stays a list
+  for (const key of openKeys) {
+    const value = data[key];
+    if (Array.isArray(value) && value.length === 0) data[key] = "";
+  }
+
+  return { data, body: lines.slice(end + 1).join("\n").replace(/^\n+/, "") };
+}
+
+function quote(value: string): string {
+  return /^[\w./@+-][\w ./@+-]*$/.test(value) && !/^(true|false|null|yes|no|\d[\d.]*)$/i.test(value) && !/\s$/.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+export function stringifyFrontMatter(data: Record<string, FrontMatterValue | undefined>): string {
+  const lines = ["---"];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      lines.push(value.length ? `${key}:` : `${key}: []`);
+      for (const item of value) lines.push(`  - ${quote(item)}`);
+    } else if (typeof value === "boolean") {
+      lines.push(`${key}: ${value}`);
+    } else {
+      lines.push(`${key}: ${quote(value)}`);
+    }
+  }
+
+  lines.push("---");
+  return `${lines.join("\n")}\n`;
+}
+
+export function frontMatterString(data: FrontMatter, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Lists may be written as YAML lists or comma-separated strings
+export function frontMatterList(data: FrontMatter, key: string): string[] {
+  const value = data[key];
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean);
+  return [];
+}
+
+export function frontMatterBoolean(data: FrontMatter, key: string): boolean | undefined {
+  const value = data[key];
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string" && /^(yes|no)$/i.test(value)) return value.toLowerCase() === "yes";
+  return undefined;
+}
@@ -0,0 +1,305 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, dirname, extname, join, relative, resolve } from "path";
+import { AttachmentPolicy, resolveAttachment } from "./attachments.js";
+import { BearClient } from "./bear-client.js";
+import { listAllNotes } from "./corpus.js";
+import { frontMatterList, frontMatterString, parseFrontMatter } from "./front-matter.js";
+import { titleKey } from "./links.js";
+import { FENCE } from "./note-helpers.js";
+import { toTagList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { ImportArgs } from "./schemas.js";
+import { cleanTagName } from "./tags.js";
+
+const DEFAULT_IMPORT_LIMIT = 200;
+const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown"]);
+
+// Notion appends a 32 character hex ID to exported file names
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+const H1 = /^#\s+(.+?)\s*#*\s*$/;
+const NOTION_TAGS = /^tags:\s*(.+)$/i;
+// ![[image.png]] or ![[image.png|300]] (Obsidian) and ![alt](path "title")
+const EMBED = /!\[\[([^\[\]\n|]+)(?:\|[^\[\]\n]*)?\]\]/g;
+const IMAGE = /!\[([^\]\n]*)\]\(<?([^)\n>]+?)>?(?:\s+"[^"\n]*")?\)/g;
+// [[Note]], [[folder/Note#Heading|alias]]
+const WIKILINK = /\[\[([^\[\]\n|#]+)(?:#([^\[\]\n|]+))?(?:\|[^\[\]\n]*)?\]\]/g;
+// [text](Other%20Note.md) and [text](Other%20Note.md#heading)
+const MARKDOWN_LINK = /(?<!!)\[([^\]\n]*)\]\(<?([^)\n>]+?\.md)(?:#([^)\n>]*))?>?\)/gi;
+// Stands in for an embed that became an attachment until the line is tidied
+const REMOVED = "\u0000";
+const REMOVED_RUN = /([ \t]*)(?:\u0000[ \t]*)*\u0000([ \t]*)/g;
+
+export type ImportStatus = "created" | "would_create" | "duplicate" | "failed";
+
+export interface ImportResult {
+  file: string;
+  status: ImportStatus;
+  title: string;
+  identifier?: string;
+  tags: string[];
+  attachments: string[];
+  warnings: string[];
+  error?: string;
+}
+
+interface PlannedNote {
+  path: string;
+  result: ImportResult;
+  text: string;
+  // Local files to attach after the note is created
+  files: string[];
+}
+
+// Markdown files and everything else below the root, skipping hidden
+// directories such as .obsidian and .git and not following symlinked directories
+function walk(root: string, recursive: boolean): { markdown: string[]; other: string[] } {
+  const markdown: string[] = [];
+  const other: string[] = [];
+
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) visit(path);
+      } else if (entry.isFile()) {
+        (MARKDOWN_EXTENSIONS.has(extname(entry.name).toLowerCase()) ? markdown : other).push(path);
+      }
+    }
+  };
+
+  visit(root);
+  return { markdown, other };
+}
+
+function fileTitle(path: string): string {
+  return basename(path, extname(path)).replace(NOTION_ID, "").trim();
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path.trim());
+  } catch {
+    return path.trim();
+  }
+}
+
+function isRemote(path: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(path);
+}
+
+// Pulls the title out of the front matter, the leading H1 or the file name,
+// and tags out of the front matter or a Notion "Tags:" property line
+function readNote(path: string): { title: string; tags: string[]; body: string } {
+  const { data, body } = parseFrontMatter(readFileSync(path, "utf8"));
+  const lines = body.split("\n");
+  const tags = [...frontMatterList(data, "tags"), ...frontMatterList(data, "tag")];
+
+  let title = frontMatterString(data, "title");
+  const first = lines.findIndex((line) => line.trim() !== "");
+  const heading = first === -1 ? null : H1.exec(lines[first]);
+  // Bear adds the title as the first heading itself
+  if (heading && (!title || titleKey(heading[1]) === titleKey(title))) {
+    title = title ?? heading[1];
+    lines.splice(first, 1);
+
+    // Notion lists page properties right below the title
+    let start = first;
+    while (start < lines.length && !lines[start].trim()) start++;
+    for (let i = start; i < lines.length && lines[i].trim(); i++) {
+      const notionTags = NOTION_TAGS.exec(lines[i]);
+      if (notionTags) {
+        tags.push(...notionTags[1].split(","));
+        lines.splice(i, 1);
+        break;
+      }
+    }
+  }
+
+  return {
+    title: title ?? fileTitle(path),
+    tags: tags.map(cleanTagName).filter(Boolean),
+    body: lines.join("\n").replace(/^\n+/, ""),
+  };
+}
+
+// Rewrites links and embeds into Bear's syntax and collects local images.
+// `titleFor` maps a linked file or note name to the title it is imported as.
+function convertBody(
+  body: string,
+  path: string,
+  root: string,
+  titleFor: (name: string) => string,
+  findFile: (name: string) => string | undefined
+): { text: string; files: string[]; warnings: string[] } {
+  const files: string[] = [];
+  const warnings: string[] = [];
+
+  const attach = (reference: string, match: string): string => {
+    const name = decodePath(reference);
+    if (isRemote(name)) return match;
+
+    // Only files inside the imported directory are looked at
+    const local = [resolve(dirname(path), name), resolve(root, name)]
+      .filter((candidate) => !relative(root, candidate).startsWith(".."))
+      .find((candidate) => existsSync(candidate)) ?? findFile(name);
+    if (!local) {
+      warnings.push(`Attachment not found: ${name}`);
+      return match;
+    }
+    files.push(local);
+    return REMOVED;
+  };
+
+  // Keeps indentation and a single space between the words around a removed
+  // embed, so "see ![](a.png) below" becomes "see below"
+  const tidy = (line: string) => line.replace(REMOVED_RUN, (match, before: string, after: string, offset: number) => {
+    if (offset === 0) return before;
+    if (offset + match.length === line.length) return "";
+    return before && after ? " " : "";
+  });
+
+  const convert = (line: string) => tidy(line
+    .replace(EMBED, (match, target: string) => {
+      const name = target.trim();
+      // Embedded notes become plain links; anything with an extension is a file
+      if (!extname(name) || MARKDOWN_EXTENSIONS.has(extname(name).toLowerCase())) {
+        return `[[${titleFor(name)}]]`;
+      }
+      return attach(name, match);
+    })
+    .replace(IMAGE, (match, _alt: string, target: string) => attach(target, match))
+    .replace(WIKILINK, (_match, target: string, heading?: string) =>
+      `[[${titleFor(target.trim())}${heading ? `/${heading.trim()}` : ""}]]`
+    )
+    .replace(MARKDOWN_LINK, (match, _text: string, target: string, heading?: string) => {
+      if (isRemote(target)) return match;
+      return `[[${titleFor(decodePath(target))}${heading ? `/${decodePath(heading).replace(/-/g, " ")}` : ""}]]`;
+    }));
+
+  let fenced = false;
+  const lines: string[] = [];
+  for (const line of body.split("\n")) {
+    if (FENCE.test(line)) fenced = !fenced;
+    const converted = fenced || FENCE.test(line) ? line : convert(line);
+    // Lines that only held an attachment go away with it
+    if (converted.trim() || !line.trim()) lines.push(converted);
+  }
+  const text = lines.join("\n");
+
+  return { text, files, warnings };
+}
+
+// Imports a directory of Markdown files, e.g. an Obsidian vault or a Notion
+// export. Everything is planned first so links between imported files can
+// use their final titles, then each note is created and its images attached.
+export async function importNotes(bear: BearClient, args: ImportArgs): Promise<ToolResult> {
+  const policy = AttachmentPolicy.fromEnv();
+  const root = policy.checkPath(args.directory, "directory");
+  const { markdown, other } = walk(root, args.recursive ?? true);
+  if (markdown.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `No Markdown files found in ${root}`);
+  }
+
+  const limit = args.limit ?? DEFAULT_IMPORT_LIMIT;
+  const selected = markdown.slice(0, limit);
+  const extraTags = toTagList(args.tags).map(cleanTagName).filter(Boolean);
+
+  const notes = selected.map((path) => ({ path, ...readNote(path) }));
+  const titleByName = new Map<string, string>();
+  for (const note of notes) {
+    const rel = relative(root, note.path);
+    // Links may name the file alone or its path inside the directory
+    for (const key of [rel.slice(0, -extname(rel).length), fileTitle(rel)]) {
+      if (!titleByName.has(key.toLowerCase())) titleByName.set(key.toLowerCase(), note.title);
+    }
+  }
+  const titleFor = (name: string) => {
+    const bare = name.replace(/\.(md|markdown)$/i, "");
+    return titleByName.get(bare.toLowerCase()) ?? titleByName.get(fileTitle(bare).toLowerCase()) ?? basename(bare).replace(NOTION_ID, "");
+  };
+  const byBasename = new Map(other.map((path) => [basename(path).toLowerCase(), path]));
+  const findFile = (name: string) => byBasename.get(basename(name).toLowerCase());
+
+  const existing = new Map(
+    args.on_duplicate === "create" ? [] : (await listAllNotes(bear)).map((note) => [titleKey(note.title), note.identifier])
+  );
+
+  const planned: PlannedNote[] = notes.map((note) => {
+    const { text, files, warnings } = convertBody(note.body, note.path, root, titleFor, findFile);
+    const tags = [...new Set([...note.tags, ...extraTags])];
+    const result: ImportResult = {
+      file: relative(root, note.path),
+      status: args.dry_run ? "would_create" : "created",
+      title: note.title,
+      tags,
+      attachments: files.map((file) => relative(root, file)),
+      warnings,
+    };
+
+    const duplicate = existing.get(titleKey(note.title));
+    if (duplicate !== undefined) {
+      result.status = "duplicate";
+      result.identifier = duplicate || undefined;
+    } else if (args.on_duplicate !== "create") {
+      // Later files with the same title count as duplicates of this one
+      existing.set(titleKey(note.title), "");
+    }
+    return { path: note.path, result, text, files };
+  });
+
+  if (!args.dry_run) {
+    for (const note of planned.filter((n) => n.result.status === "created")) {
+      const { result } = note;
+      try {
+        const params: Record<string, string> = { title: result.title, text: note.text, open_note: "no", show_window: "no" };
+        if (result.tags.length) params.tags = result.tags.join(",");
+        const created = await bear.executeWithCallback("create", params);
+        result.identifier = created.identifier ? String(created.identifier) : undefined;
+      } catch (error) {
+        result.status = "failed";
+        result.error = error instanceof Error ? error.message : String(error);
+        continue;
+      }
+
+      for (const file of note.files) {
+        try {
+          const attachment = resolveAttachment(file, undefined, policy);
+          // A new note has nothing to restore, so there is nothing to journal
+          await bear.run("add-file", {
+            ...(result.identifier ? { id: result.identifier } : { title: result.title }),
+            file: attachment.data,
+            filename: attachment.filename,
+            mode: "append",
+            open_note: "no",
+            show_window: "no",
+          }, { journal: false });
+        } catch (error) {
+          result.warnings.push(`Could not attach ${relative(root, file)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }
+
+  const results = planned.map((n) => n.result);
+  const count = (status: ImportStatus) => results.filter((r) => r.status === status).length;
+  const message = (args.dry_run
+    ? `Would import ${count("would_create")} of ${results.length} file(s) from ${root}`
+    : `Imported ${count("created")} of ${results.length} file(s) from ${root}`) +
+    (count("duplicate") ? `; ${count("duplicate")} duplicate title(s) skipped` : "") +
+    (count("failed") ? `; ${count("failed")} failed` : "") +
+    (markdown.length > selected.length ? `; ${markdown.length - selected.length} more file(s) over the limit of ${limit}` : "");
+
+  const lines = results.map((r) => {
+    const details = [
+      r.identifier ? `[${r.identifier}]` : "",
+      r.attachments.length ? `${r.attachments.length} attachment(s)` : "",
+      r.error ?? "",
+      ...r.warnings,
+    ].filter(Boolean);
+    return `- ${r.file}: ${r.status.replace("_", " ")} "${r.title}"${details.length ? ` · ${details.join(" · ")}` : ""}`;
+  });
+
+  return structuredResult({ message, directory: root, results }, `${message}\n\n${lines.join("\n")}`);
+}
@@ -0,0 +1,299 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { BearClient, BearParams } from "./bear-client.js";
+import { envInteger } from "./env.js";
+import { NoteTarget, openNote } from "./note-helpers.js";
+import { normalizeNoteList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { ListHistoryArgs, UndoLastArgs } from "./schemas.js";
+
+const DEFAULT_JOURNAL_SIZE = 100;
+const DEFAULT_HISTORY_LIMIT = 20;
+// Characters of the written text kept in an entry's params; the full
+// content is already in the snapshots
+const TEXT_PREVIEW_LENGTH = 80;
+
+// Bear actions that change notes or tags, and so are journaled before they run
+export const JOURNALED_ACTIONS: ReadonlySet<string> = new Set([
+  "add-text",
+  "add-file",
+  "trash",
+  "archive",
+  "rename-tag",
+  "delete-tag",
+]);
+
+// Bear has no URL action to bring a note back from the archive
+const IRREVERSIBLE_ACTIONS: ReadonlySet<string> = new Set(["archive"]);
+
+export function defaultJournalPath(): string {
+  return join(homedir(), ".config", "bear-mcp-server", "journal.json");
+}
+
+export interface NoteSnapshot {
+  identifier: string;
+  title: string;
+  text: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  action: string;
+  params: Record<string, string>;
+  // Content of every affected note as it was before the action ran
+  notes: NoteSnapshot[];
+  reversible: boolean;
+  undone_at?: string;
+}
+
+export interface JournalOptions {
+  path?: string;
+  size?: number;
+}
+
+// Stores the most recent mutating calls, newest last, in a JSON file so
+// history survives server restarts
+export class Journal {
+  readonly path: string;
+  private size: number;
+
+  constructor(options: JournalOptions = {}) {
+    this.path = options.path ?? defaultJournalPath();
+    this.size = options.size ?? DEFAULT_JOURNAL_SIZE;
+  }
+
+  // BEAR_JOURNAL=off disables the journal entirely
+  static fromEnv(): Journal | undefined {
+    if (process.env.BEAR_JOURNAL === "off") {
+      return undefined;
+    }
+    return new Journal({
+      path: process.env.BEAR_JOURNAL_PATH || undefined,
+      size: envInteger("BEAR_JOURNAL_SIZE"),
+    });
+  }
+
+  entries(): JournalEntry[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    try {
+      const entries = JSON.parse(readFileSync(this.path, "utf8"));
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read undo journal ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  append(action: string, params: BearParams, notes: NoteSnapshot[]): JournalEntry {
+    const entry: JournalEntry = {
+      id: randomBytes(4).toString("hex"),
+      timestamp: new Date().toISOString(),
+      action,
+      params: journalParams(params),
+      notes,
+      reversible: !IRREVERSIBLE_ACTIONS.has(action),
+    };
+
+    this.save([...this.entries(), entry].slice(-this.size));
+    return entry;
+  }
+
+  markUndone(id: string): void {
+    const undoneAt = new Date().toISOString();
+    this.save(this.entries().map((entry) => (entry.id === id ? { ...entry, undone_at: undoneAt } : entry)));
+  }
+
+  private save(entries: JournalEntry[]): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    // Write then rename, so a crash never leaves a half-written journal
+    const temp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(temp, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    renameSync(temp, this.path);
+  }
+}
+
+// Attached files are base64 and would bloat the journal, and written text is
+// cut to a preview for the history
+function journalParams(params: BearParams): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (key === "file") continue;
+    const text = String(value);
+    kept[key] = key === "text" && text.length > TEXT_PREVIEW_LENGTH ? `${text.slice(0, TEXT_PREVIEW_LENGTH)}…` : text;
+  }
+  return kept;
+}
+
+async function snapshotNote(bear: BearClient, target: NoteTarget): Promise<NoteSnapshot> {
+  const note = await openNote(bear, target);
+  return {
+    identifier: note.identifier || target.id || "",
+    title: note.title || target.title || "",
+    text: note.note ?? "",
+  };
+}
+
+// Captures what an action is about to change: the target note for note
+// actions, every note under the tag for delete-tag, nothing for rename-tag
+// (which is reversed by renaming back)
+export async function captureSnapshots(bear: BearClient, action: string, params: BearParams): Promise<NoteSnapshot[]> {
+  switch (action) {
+    case "add-text":
+    case "add-file":
+    case "trash":
+    case "archive": {
+      return params.id || params.title ? [await snapshotNote(bear, params)] : [];
+    }
+    case "delete-tag": {
+      const tagged = normalizeNoteList(await bear.executeWithCallback("open-tag", { name: params.name, show_window: "no" }));
+      const snapshots: NoteSnapshot[] = [];
+      for (const note of tagged) {
+        snapshots.push(await snapshotNote(bear, { id: note.identifier }));
+      }
+      return snapshots;
+    }
+    default:
+      return [];
+  }
+}
+
+async function restoreContent(bear: BearClient, notes: NoteSnapshot[]): Promise<void> {
+  for (const note of notes) {
+    await bear.run(
+      "add-text",
+      { id: note.identifier, text: note.text, mode: "replace_all", open_note: "no", show_window: "no" },
+      { journal: false }
+    );
+  }
+}
+
+// Reverses a journal entry. Returns a one-line description of what was done.
+export async function revertEntry(bear: BearClient, entry: JournalEntry): Promise<string> {
+  switch (entry.action) {
+    case "add-text":
+    case "add-file":
+    case "delete-tag":
+      await restoreContent(bear, entry.notes);
+      return `Restored the previous content of ${entry.notes.length} note(s)`;
+    case "trash":
+      for (const note of entry.notes) {
+        await bear.run("untrash", { id: note.identifier, show_window: "no" }, { journal: false });
+      }
+      return `Restored ${entry.notes.length} note(s) from the trash`;
+    case "rename-tag":
+      await bear.run(
+        "rename-tag",
+        { name: entry.params.new_name, new_name: entry.params.name, show_window: "no" },
+        { journal: false }
+      );
+      return `Renamed tag "${entry.params.new_name}" back to "${entry.params.name}"`;
+    default:
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `"${entry.action}" cannot be undone automatically; the note's previous content is kept in the journal at ${entry.timestamp}.`
+      );
+  }
+}
+
+function requireJournal(bear: BearClient): Journal {
+  if (!bear.journal) {
+    throw new McpError(ErrorCode.InvalidRequest, "The undo journal is disabled (BEAR_JOURNAL=off)");
+  }
+  return bear.journal;
+}
+
+function describeEntry(entry: JournalEntry): string {
+  const target = entry.action === "rename-tag"
+    ? `#${entry.params.name} → #${entry.params.new_name}`
+    : entry.action === "delete-tag"
+      ? `#${entry.params.name} (${entry.notes.length} note(s))`
+      : entry.notes.map((n) => `${n.title || "(untitled)"} [${n.identifier}]`).join(", ") || entry.params.id || entry.params.title || "";
+  const mode = entry.params.mode ? ` (${entry.params.mode})` : "";
+  const state = entry.undone_at ? " · undone" : entry.reversible ? "" : " · cannot be undone";
+  return `- ${entry.id} · ${entry.timestamp} · ${entry.action}${mode} ${target}${state}`;
+}
+
+export async function listHistory(bear: BearClient, args: ListHistoryArgs): Promise<ToolResult> {
+  const journal = requireJournal(bear);
+  const entries = journal.entries().reverse().slice(0, args.limit ?? DEFAULT_HISTORY_LIMIT);
+  const history = entries.map(({ notes, ...entry }) => ({
+    ...entry,
+    notes: notes.map(({ identifier, title }) => ({ identifier, title })),
+  }));
+
+  return structuredResult(
+    { message: `${entries.length} journaled operation(s), newest first`, history },
+    entries.length ? entries.map(describeEntry).join("\n") : "No journaled operations."
+  );
+}
+
+// Undoes one entry by ID, or the most recent `count` entries that haven't
+// been undone yet, newest first so older snapshots win
+export async function undoLast(bear: BearClient, args: UndoLastArgs): Promise<ToolResult> {
+  const journal = requireJournal(bear);
+  const entries = journal.entries();
+  let targets: JournalEntry[];
+
+  if (args.id) {
+    const entry = entries.find((e) => e.id === args.id);
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `No journal entry with id ${args.id}; see bear_list_history`);
+    }
+    if (entry.undone_at) {
+      throw new McpError(ErrorCode.InvalidRequest, `Journal entry ${args.id} was already undone at ${entry.undone_at}`);
+    }
+    // Restoring an older snapshot would silently drop the later edits
+    const touched = new Set(entry.notes.map((n) => n.identifier));
+    const newer = entries
+      .slice(entries.indexOf(entry) + 1)
+      .filter((e) => !e.undone_at && e.notes.some((n) => touched.has(n.identifier)));
+    if (newer.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Journal entry ${args.id} can't be undone on its own: later changes to the same note(s) would be lost ` +
+        `(${newer.map((e) => `${e.id} ${e.action}`).join(", ")}). Undo those first.`
+      );
+    }
+    targets = [entry];
+  } else {
+    targets = entries.filter((e) => !e.undone_at).reverse().slice(0, args.count ?? 1);
+  }
+
+  if (targets.length === 0) {
+    const message = "Nothing to undo";
+    return structuredResult({ message, undone: [], failed: [] }, message);
+  }
+
+  const undone: Array<{ id: string; action: string; result: string }> = [];
+  const failed: Array<{ id: string; action: string; error: string }> = [];
+
+  for (const entry of targets) {
+    try {
+      const result = await revertEntry(bear, entry);
+      journal.markUndone(entry.id);
+      undone.push({ id: entry.id, action: entry.action, result });
+    } catch (error) {
+      failed.push({ id: entry.id, action: entry.action, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const message = `Undid ${undone.length} operation(s)${failed.length ? `, ${failed.length} could not be undone` : ""}`;
+  const lines = [
+    ...undone.map((u) => `- ${u.id} ${u.action}: ${u.result}`),
+    ...failed.map((f) => `- FAILED ${f.id} ${f.action}: ${f.error}`),
+  ];
+
+  return {
+    ...structuredResult({ message, undone, failed }, `${message}\n\n${lines.join("\n")}`),
+    isError: undone.length === 0,
+  };
+}
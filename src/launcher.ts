@@ -0,0 +1,185 @@
+import { execFile } from "child_process";
+import { readFileSync } from "fs";
+import { get } from "http";
+import { URL } from "url";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Longest URL a command can be given as one argument. Linux limits each
+// argument to 128 KB (MAX_ARG_STRLEN); macOS limits arguments and environment
+// together to 1 MB (ARG_MAX), of which this leaves 64 KB to the environment.
+export const MAX_ARGUMENT_LENGTH = process.platform === "darwin" ? 960 * 1024 : 128 * 1024 - 1;
+
+export interface URLLauncher {
+  readonly name: string;
+  // Longest URL launch() can pass on, where the launcher has a limit
+  readonly maxURLLength?: number;
+  launch(url: string): Promise<void>;
+  // Reads a generic password stored under `service`, where the platform has a keychain
+  readKeychain?(service: string): Promise<string | undefined>;
+}
+
+// Hands the URL to an OS-level opener such as macOS `open` or `xdg-open`.
+// The URL is passed as a single argument, never through a shell.
+export class CommandLauncher implements URLLauncher {
+  readonly maxURLLength = MAX_ARGUMENT_LENGTH;
+
+  constructor(readonly name: string, private command: string) {}
+
+  async launch(url: string): Promise<void> {
+    // Fail with a clear message rather than the spawn's E2BIG
+    if (url.length > this.maxURLLength) {
+      throw new Error(`The URL is ${url.length} characters, more than ${this.name} can be passed (${this.maxURLLength})`);
+    }
+
+    const { stderr } = await execFileAsync(this.command, [url]);
+
+    if (stderr) {
+      throw new Error(`Bear command failed: ${stderr}`);
+    }
+  }
+}
+
+export class MacOSLauncher extends CommandLauncher {
+  constructor() {
+    super("open", "open");
+  }
+
+  async readKeychain(service: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await execFileAsync("security", ["find-generic-password", "-s", service, "-w"]);
+      return stdout.trim() || undefined;
+    } catch {
+      // `security` exits non-zero when there is no matching item
+      return undefined;
+    }
+  }
+}
+
+export type FakeBearReply =
+  | { type: "success"; params?: Record<string, string> }
+  | { type: "error"; errorCode?: string; errorMessage?: string }
+  | { type: "cancel" }
+  | { type: "none" };
+
+export type FakeBearResponder = (
+  action: string,
+  params: Record<string, string>
+) => FakeBearReply | Promise<FakeBearReply>;
+
+export interface LaunchedURL {
+  url: string;
+  action: string;
+  params: Record<string, string>;
+}
+
+// In-process stand-in for Bear: records every URL and answers the x-callback
+// parameters the same way Bear would, so handlers can run off macOS.
+export class FakeLauncher implements URLLauncher {
+  readonly name = "fake";
+  readonly launched: LaunchedURL[] = [];
+
+  constructor(
+    private responder: FakeBearResponder = () => ({ type: "success" }),
+    private keychain: Record<string, string> = {}
+  ) {}
+
+  async launch(url: string): Promise<void> {
+    const parsed = new URL(url);
+    const action = parsed.pathname.replace(/^\//, "");
+    const params = Object.fromEntries(parsed.searchParams.entries());
+
+    this.launched.push({ url, action, params });
+
+    const reply = await this.responder(action, params);
+    let target: string | undefined;
+    let query: Record<string, string> = {};
+
+    switch (reply.type) {
+      case "success":
+        target = params["x-success"];
+        query = reply.params ?? {};
+        break;
+      case "error":
+        target = params["x-error"];
+        if (reply.errorCode) query.errorCode = reply.errorCode;
+        if (reply.errorMessage) query.errorMessage = reply.errorMessage;
+        break;
+      case "cancel":
+        target = params["x-cancel"];
+        break;
+      case "none":
+        break;
+    }
+
+    if (!target) {
+      return;
+    }
+
+    const callbackUrl = new URL(target);
+    for (const [key, value] of Object.entries(query)) {
+      callbackUrl.searchParams.set(key, value);
+    }
+
+    // Bear answers asynchronously after `open` has returned, so do the same
+    setImmediate(() => this.deliver(callbackUrl));
+  }
+
+  async readKeychain(service: string): Promise<string | undefined> {
+    return this.keychain[service];
+  }
+
+  reset() {
+    this.launched.length = 0;
+  }
+
+  private deliver(callbackUrl: URL) {
+    get(callbackUrl, (res) => res.resume()).on("error", (error) => {
+      console.error(`Fake Bear callback to ${callbackUrl.pathname} failed: ${error.message}`);
+    });
+  }
+}
+
+// Canned replies keyed by Bear action. An entry with `errorCode` or
+// `errorMessage` is answered through x-error, anything else through x-success
+// with non-string values JSON-encoded the way Bear sends `notes` and `tags`.
+export function loadFakeResponses(path: string): FakeBearResponder {
+  const responses: Record<string, Record<string, unknown>> = JSON.parse(readFileSync(path, "utf8"));
+
+  return (action) => {
+    const response = responses[action];
+    if (!response) {
+      return { type: "success" };
+    }
+
+    if ("errorCode" in response || "errorMessage" in response) {
+      return {
+        type: "error",
+        errorCode: response.errorCode !== undefined ? String(response.errorCode) : undefined,
+        errorMessage: response.errorMessage !== undefined ? String(response.errorMessage) : undefined,
+      };
+    }
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response)) {
+      params[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+    return { type: "success", params };
+  };
+}
+
+export function createLauncher(name: string | undefined = process.env.BEAR_LAUNCHER): URLLauncher {
+  switch (name || (process.platform === "darwin" ? "open" : "xdg-open")) {
+    case "open":
+      return new MacOSLauncher();
+    case "xdg-open":
+      return new CommandLauncher("xdg-open", "xdg-open");
+    case "fake":
+      return new FakeLauncher(
+        process.env.BEAR_FAKE_RESPONSES ? loadFakeResponses(process.env.BEAR_FAKE_RESPONSES) : undefined
+      );
+    default:
+      throw new Error(`Unknown Bear launcher: ${name}. Expected one of: open, xdg-open, fake`);
+  }
+}
@@ -0,0 +1,329 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { CorpusNote, NoteCorpus } from "./corpus.js";
+import { FENCE } from "./note-helpers.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { FindBrokenLinksArgs, FindOrphansArgs, NoteLinksArgs, RenameNoteArgs } from "./schemas.js";
+import { parseSections } from "./sections.js";
+
+const WIKILINK = /\[\[([^\[\]\n]+?)\]\]/g;
+const INLINE_CODE = /`[^`\n]*`/g;
+const HEADING = /^(#{1,6})\s+/;
+
+const DEFAULT_REPORT_LIMIT = 200;
+
+export interface WikiLink {
+  // Text between the brackets, e.g. "Recipes/Pasta"
+  raw: string;
+  title: string;
+  header?: string;
+  // 1-based line number in the source note
+  line: number;
+  context: string;
+}
+
+export type LinkStatus = "ok" | "missing_note" | "missing_header";
+
+export interface ResolvedLink extends WikiLink {
+  source: { identifier: string; title: string };
+  target?: { identifier: string; title: string };
+  status: LinkStatus;
+}
+
+export interface LinkIndex {
+  notes: CorpusNote[];
+  links: ResolvedLink[];
+}
+
+export function titleKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+// Splits "Title/Header" unless a note is actually called that, since titles
+// may contain slashes. Obsidian-style "Title|alias" drops the alias.
+export function splitTarget(raw: string, titles: ReadonlySet<string>): { title: string; header?: string } {
+  const target = raw.split("|")[0].trim();
+  const slash = target.lastIndexOf("/");
+  if (titles.has(titleKey(target)) || slash <= 0) {
+    return { title: target };
+  }
+  return { title: target.slice(0, slash).trim(), header: target.slice(slash + 1).trim() || undefined };
+}
+
+// Calls `visit` for each line that can hold links, i.e. outside fenced code
+function eachLinkLine(text: string, visit: (line: string, index: number) => string | void): string {
+  let fenced = false;
+  return text
+    .split("\n")
+    .map((line, index) => {
+      if (FENCE.test(line)) {
+        fenced = !fenced;
+        return line;
+      }
+      return fenced ? line : visit(line, index) ?? line;
+    })
+    .join("\n");
+}
+
+export function parseWikiLinks(text: string, titles: ReadonlySet<string> = new Set()): WikiLink[] {
+  const links: WikiLink[] = [];
+  eachLinkLine(text, (line, index) => {
+    for (const match of line.replace(INLINE_CODE, (code) => " ".repeat(code.length)).matchAll(WIKILINK)) {
+      links.push({ raw: match[1], ...splitTarget(match[1], titles), line: index + 1, context: line.trim() });
+    }
+  });
+  return links;
+}
+
+// Calls `replace` for every link outside code; returning undefined keeps the link as written
+export function replaceWikiLinks(
+  text: string,
+  replace: (link: { raw: string; title: string; header?: string; alias?: string }) => string | undefined,
+  titles: ReadonlySet<string> = new Set()
+): string {
+  return eachLinkLine(text, (line) => {
+    const codeSpans = [...line.matchAll(INLINE_CODE)].map((m) => [m.index!, m.index! + m[0].length]);
+    return line.replace(WIKILINK, (match, raw: string, offset: number) => {
+      if (codeSpans.some(([start, end]) => offset >= start && offset < end)) return match;
+      const alias = raw.includes("|") ? raw.slice(raw.indexOf("|") + 1).trim() : undefined;
+      return replace({ raw, ...splitTarget(raw, titles), alias }) ?? match;
+    });
+  });
+}
+
+// Points links to `oldTitle` (and its headers) at `newTitle`, keeping headers and aliases
+export function rewriteWikiLinks(
+  text: string,
+  oldTitle: string,
+  newTitle: string,
+  titles: ReadonlySet<string> = new Set()
+): { text: string; replaced: number } {
+  let replaced = 0;
+  const rewritten = replaceWikiLinks(text, ({ title, header, alias }) => {
+    if (titleKey(title) !== titleKey(oldTitle)) return undefined;
+    replaced++;
+    return `[[${newTitle}${header ? `/${header}` : ""}${alias !== undefined ? `|${alias}` : ""}]]`;
+  }, titles);
+  return { text: rewritten, replaced };
+}
+
+export function buildLinkIndex(notes: CorpusNote[]): LinkIndex {
+  const byTitle = new Map<string, CorpusNote>();
+  for (const note of notes) {
+    if (note.title && !byTitle.has(titleKey(note.title))) byTitle.set(titleKey(note.title), note);
+  }
+  const titles = new Set(byTitle.keys());
+  const headersOf = new Map<string, Set<string>>();
+
+  const links = notes.flatMap((note) =>
+    parseWikiLinks(note.note, titles).map((link): ResolvedLink => {
+      const source = { identifier: note.identifier, title: note.title };
+      const target = byTitle.get(titleKey(link.title));
+      if (!target) {
+        return { ...link, source, status: "missing_note" };
+      }
+
+      let headers = headersOf.get(target.identifier);
+      if (!headers) {
+        headers = new Set(parseSections(target.note.split("\n")).map((s) => titleKey(s.title)));
+        headersOf.set(target.identifier, headers);
+      }
+      const status = link.header && !headers.has(titleKey(link.header)) ? "missing_header" : "ok";
+      return { ...link, source, target: { identifier: target.identifier, title: target.title }, status };
+    })
+  );
+
+  return { notes, links };
+}
+
+export async function loadLinkIndex(bear: BearClient): Promise<LinkIndex> {
+  return buildLinkIndex(await NoteCorpus.for(bear).load());
+}
+
+function findNote(index: LinkIndex, args: { id?: string; title?: string }): CorpusNote | undefined {
+  return args.id
+    ? index.notes.find((note) => note.identifier === args.id)
+    : index.notes.find((note) => titleKey(note.title) === titleKey(args.title!));
+}
+
+function requireNote(index: LinkIndex, args: { id?: string; title?: string }): CorpusNote {
+  const note = findNote(index, args);
+  if (!note) {
+    throw new McpError(ErrorCode.InvalidParams, `No readable note ${args.id ? `with id ${args.id}` : `titled "${args.title}"`}`);
+  }
+  return note;
+}
+
+function renderLink(link: ResolvedLink, side: "source" | "target"): string {
+  const status = link.status === "ok" ? "" : ` (${link.status.replace("_", " ")})`;
+  const note = side === "source"
+    ? `${link.source.title || "(untitled)"} [${link.source.identifier}]:${link.line}`
+    : link.target ? `${link.target.title} [${link.target.identifier}]` : link.title;
+  return `- [[${link.raw}]] → ${note}${status}\n  ${link.context}`;
+}
+
+export async function getBacklinks(bear: BearClient, args: NoteLinksArgs): Promise<ToolResult> {
+  const index = await loadLinkIndex(bear);
+  const note = args.id ? requireNote(index, args) : findNote(index, args);
+  // Links to a title with no note behind it are still worth reporting
+  const title = note?.title ?? args.title!;
+  const backlinks = index.links.filter((link) =>
+    note ? link.target?.identifier === note.identifier : titleKey(link.title) === titleKey(title)
+  );
+
+  const sources = new Set(backlinks.map((link) => link.source.identifier));
+  const message = backlinks.length
+    ? `${backlinks.length} link(s) to "${title}" from ${sources.size} note(s)`
+    : `No notes link to "${title}"`;
+  return structuredResult(
+    { message, identifier: note?.identifier, title, count: backlinks.length, backlinks },
+    backlinks.length ? `${message}\n\n${backlinks.map((link) => renderLink(link, "source")).join("\n")}` : message
+  );
+}
+
+export async function getOutlinks(bear: BearClient, args: NoteLinksArgs): Promise<ToolResult> {
+  const index = await loadLinkIndex(bear);
+  const note = requireNote(index, args);
+  const outlinks = index.links.filter((link) => link.source.identifier === note.identifier);
+
+  const broken = outlinks.filter((link) => link.status !== "ok").length;
+  const message = outlinks.length
+    ? `"${note.title}" has ${outlinks.length} link(s)${broken ? `, ${broken} broken` : ""}`
+    : `"${note.title}" doesn't link to other notes`;
+  return structuredResult(
+    { message, identifier: note.identifier, title: note.title, count: outlinks.length, outlinks },
+    outlinks.length ? `${message}\n\n${outlinks.map((link) => renderLink(link, "target")).join("\n")}` : message
+  );
+}
+
+export async function findBrokenLinks(bear: BearClient, args: FindBrokenLinksArgs): Promise<ToolResult> {
+  const index = await loadLinkIndex(bear);
+  const broken = index.links.filter((link) => link.status !== "ok");
+  const page = broken.slice(0, args.limit ?? DEFAULT_REPORT_LIMIT);
+
+  const message = broken.length
+    ? `Found ${broken.length} broken link(s) in ${index.notes.length} note(s)` +
+      (broken.length > page.length ? `; showing the first ${page.length}` : "")
+    : `No broken links in ${index.notes.length} note(s)`;
+  return structuredResult(
+    { message, total: broken.length, count: page.length, links: page },
+    page.length ? `${message}\n\n${page.map((link) => renderLink(link, "source")).join("\n")}` : message
+  );
+}
+
+// Orphans neither link to another note nor are linked to; links from a note
+// to itself don't count
+export async function findOrphans(bear: BearClient, args: FindOrphansArgs): Promise<ToolResult> {
+  const index = await loadLinkIndex(bear);
+  const connected = new Set<string>();
+  for (const link of index.links) {
+    if (!link.target || link.target.identifier === link.source.identifier) continue;
+    connected.add(link.source.identifier);
+    connected.add(link.target.identifier);
+  }
+
+  const orphans = index.notes
+    .filter((note) => !connected.has(note.identifier))
+    .filter((note) => !args.untagged_only || note.tags.length === 0)
+    .map(({ note, ...rest }) => rest);
+  const page = orphans.slice(0, args.limit ?? DEFAULT_REPORT_LIMIT);
+
+  const message = `${orphans.length} of ${index.notes.length} note(s) have no links in or out` +
+    (orphans.length > page.length ? `; showing the first ${page.length}` : "");
+  const lines = page.map((note) => `- ${note.title || "(untitled)"} [${note.identifier}]`);
+  return structuredResult(
+    { message, total: orphans.length, count: page.length, notes: page },
+    lines.length ? `${message}\n\n${lines.join("\n")}` : message
+  );
+}
+
+// Bear takes a note's title from its first line
+export function retitle(text: string, oldTitle: string, newTitle: string): string {
+  const lines = text.split("\n");
+  const first = lines.findIndex((line) => line.trim() !== "");
+  if (first === -1) {
+    return `# ${newTitle}`;
+  }
+
+  const heading = HEADING.exec(lines[first]);
+  if (heading) {
+    lines[first] = `${heading[1]} ${newTitle}`;
+  } else if (lines[first].trim() === oldTitle.trim()) {
+    lines[first] = newTitle;
+  } else {
+    lines.splice(first, 0, `# ${newTitle}`);
+  }
+  return lines.join("\n");
+}
+
+// Renames a note by rewriting its first line, then updates [[links]] to it
+// in every other note. Each rewrite is a separate add-text, so each lands in
+// the undo journal on its own.
+export async function renameNote(bear: BearClient, args: RenameNoteArgs): Promise<ToolResult> {
+  const newTitle = args.new_title.trim();
+  if (!newTitle || /[\[\]\n]/.test(newTitle)) {
+    throw new McpError(ErrorCode.InvalidParams, "new_title must be a single line without square brackets");
+  }
+
+  const corpus = NoteCorpus.for(bear);
+  const index = buildLinkIndex(await corpus.load());
+  const note = requireNote(index, args);
+  const clash = index.notes.find((n) => n.identifier !== note.identifier && titleKey(n.title) === titleKey(newTitle));
+  if (clash) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Another note is already titled "${clash.title}" [${clash.identifier}]; links to either would become ambiguous`
+    );
+  }
+
+  const titles = new Set(index.notes.map((n) => titleKey(n.title)));
+  const show_window = args.show_window ? "yes" : "no";
+  const updateLinks = args.update_links ?? true;
+
+  // Links from the note to itself are rewritten along with its title
+  let text = retitle(note.note, note.title, newTitle);
+  if (updateLinks) text = rewriteWikiLinks(text, note.title, newTitle, titles).text;
+  await bear.run("add-text", { id: note.identifier, text, mode: "replace_all", open_note: "no", show_window });
+  corpus.invalidate(note.identifier);
+
+  const updated: Array<{ identifier: string; title: string; links: number }> = [];
+  const failed: Array<{ identifier: string; title: string; error: string }> = [];
+
+  if (updateLinks) {
+    const sources = new Set(
+      index.links
+        .filter((link) => link.target?.identifier === note.identifier && link.source.identifier !== note.identifier)
+        .map((link) => link.source.identifier)
+    );
+
+    for (const source of index.notes.filter((n) => sources.has(n.identifier))) {
+      const rewritten = rewriteWikiLinks(source.note, note.title, newTitle, titles);
+      try {
+        await bear.run("add-text", {
+          id: source.identifier,
+          text: rewritten.text,
+          mode: "replace_all",
+          open_note: "no",
+          show_window,
+        });
+        updated.push({ identifier: source.identifier, title: source.title, links: rewritten.replaced });
+      } catch (error) {
+        failed.push({ identifier: source.identifier, title: source.title, error: error instanceof Error ? error.message : String(error) });
+      }
+      corpus.invalidate(source.identifier);
+    }
+  }
+
+  const linkCount = updated.reduce((sum, n) => sum + n.links, 0);
+  const message = `Renamed "${note.title}" to "${newTitle}"` +
+    (updateLinks ? `, updating ${linkCount} link(s) in ${updated.length} note(s)` : "") +
+    (failed.length ? `; ${failed.length} note(s) could not be updated` : "");
+  const lines = [
+    ...updated.map((n) => `- ${n.title} [${n.identifier}]: ${n.links} link(s)`),
+    ...failed.map((n) => `- ${n.title} [${n.identifier}]: failed: ${n.error}`),
+  ];
+  return structuredResult(
+    { message, identifier: note.identifier, old_title: note.title, new_title: newTitle, updated, failed },
+    lines.length ? `${message}\n\n${lines.join("\n")}` : message
+  );
+}
@@ -0,0 +1,169 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createHash } from "crypto";
+import { BearNote } from "./notes.js";
+import { ArgsOf } from "./validation.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const NOTE_FIELDS = ["identifier", "title", "tags", "modificationDate", "creationDate", "pin", "is_trashed"] as const;
+
+// Properties shared by every tool that returns a list of notes
+export const listingProperties = {
+  limit: { type: "integer", minimum: 1, maximum: MAX_LIMIT, description: `Maximum number of notes to return (default ${DEFAULT_LIMIT})` },
+  cursor: { type: "string", description: "Cursor from a previous call's next_cursor to fetch the next page" },
+  sort: {
+    type: "string",
+    enum: ["modified", "created", "title", "pinned_first"],
+    description: "Sort order: modified (default), created, title, or pinned_first (pinned, then most recently modified)",
+  },
+  order: { type: "string", enum: ["asc", "desc"], description: "Sort direction (default desc for dates, asc for title)" },
+  modified_after: { type: "string", description: "Only notes modified at or after this ISO date" },
+  modified_before: { type: "string", description: "Only notes modified before this ISO date" },
+  created_after: { type: "string", description: "Only notes created at or after this ISO date" },
+  created_before: { type: "string", description: "Only notes created before this ISO date" },
+  fields: {
+    type: "array",
+    items: { type: "string", enum: NOTE_FIELDS },
+    description: "Note fields to return; identifier is always included",
+  },
+} as const;
+
+export type ListingArgs = ArgsOf<{ type: "object"; properties: typeof listingProperties }>;
+
+export interface NotePage {
+  total: number;
+  notes: Array<Partial<BearNote>>;
+  page: BearNote[];
+  nextCursor?: string;
+}
+
+interface CursorState {
+  offset: number;
+  query: string;
+}
+
+// Cursors are opaque to clients: the offset into the sorted result plus a
+// fingerprint of the query, so a cursor can't be replayed against another query
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: string): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+
+  if (typeof state !== "object" || state === null || !Number.isInteger(state.offset) || state.offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  if (state.query !== query) {
+    throw new McpError(ErrorCode.InvalidParams, "Cursor does not belong to this query; start again without a cursor");
+  }
+  return state.offset;
+}
+
+function queryFingerprint(tool: string, filters: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify([tool, filters])).digest("base64url").slice(0, 16);
+}
+
+function parseDate(field: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be an ISO date, got: ${value}`);
+  }
+  return time;
+}
+
+function time(value: string | undefined): number {
+  return value ? Date.parse(value) : 0;
+}
+
+function compareNotes(sort: NonNullable<ListingArgs["sort"]>, order: ListingArgs["order"]) {
+  const direction = (order ?? (sort === "title" ? "asc" : "desc")) === "asc" ? 1 : -1;
+
+  return (a: BearNote, b: BearNote): number => {
+    let result = 0;
+    switch (sort) {
+      case "pinned_first":
+        result = Number(b.pin) - Number(a.pin);
+        if (result !== 0) return result;
+        result = direction * (time(a.modificationDate) - time(b.modificationDate));
+        break;
+      case "modified":
+        result = direction * (time(a.modificationDate) - time(b.modificationDate));
+        break;
+      case "created":
+        result = direction * (time(a.creationDate) - time(b.creationDate));
+        break;
+      case "title":
+        result = direction * a.title.localeCompare(b.title, undefined, { sensitivity: "base" });
+        break;
+    }
+    // Tie-break on identifier so pages are stable across calls
+    return result || a.identifier.localeCompare(b.identifier);
+  };
+}
+
+function project(note: BearNote, fields: ListingArgs["fields"]): Partial<BearNote> {
+  if (!fields?.length) {
+    return note;
+  }
+
+  const projected: Partial<BearNote> = { identifier: note.identifier };
+  for (const field of fields) {
+    (projected as Record<string, unknown>)[field] = note[field];
+  }
+  return projected;
+}
+
+// Filters, sorts, pages and projects a note list server-side. `filters` are the
+// tool's own query arguments, which the cursor is tied to.
+export function paginateNotes(
+  tool: string,
+  notes: BearNote[],
+  args: ListingArgs,
+  filters: Record<string, unknown>
+): NotePage {
+  const modifiedAfter = parseDate("modified_after", args.modified_after);
+  const modifiedBefore = parseDate("modified_before", args.modified_before);
+  const createdAfter = parseDate("created_after", args.created_after);
+  const createdBefore = parseDate("created_before", args.created_before);
+
+  const matching = notes.filter((note) => {
+    const modified = time(note.modificationDate);
+    const created = time(note.creationDate);
+    return (modifiedAfter === undefined || modified >= modifiedAfter) &&
+      (modifiedBefore === undefined || modified < modifiedBefore) &&
+      (createdAfter === undefined || created >= createdAfter) &&
+      (createdBefore === undefined || created < createdBefore);
+  });
+
+  const sort = args.sort ?? "modified";
+  matching.sort(compareNotes(sort, args.order));
+
+  const query = queryFingerprint(tool, {
+    ...filters,
+    sort,
+    order: args.order,
+    modified_after: args.modified_after,
+    modified_before: args.modified_before,
+    created_after: args.created_after,
+    created_before: args.created_before,
+  });
+  const offset = args.cursor ? decodeCursor(args.cursor, query) : 0;
+  const limit = args.limit ?? DEFAULT_LIMIT;
+  const page = matching.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+
+  return {
+    total: matching.length,
+    notes: page.map((note) => project(note, args.fields)),
+    page,
+    nextCursor: nextOffset < matching.length ? encodeCursor({ offset: nextOffset, query }) : undefined,
+  };
+}
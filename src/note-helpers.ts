@@ -0,0 +1,20 @@
+import { BearClient, BearParams } from "./bear-client.js";
+import { BearNote, normalizeNote } from "./notes.js";
+
+// A line opening or closing a fenced code block; lines inside one are left
+// alone by everything that reads Markdown structure
+export const FENCE = /^\s*(```|~~~)/;
+
+export interface NoteTarget {
+  id?: string;
+  title?: string;
+}
+
+export function noteTarget(target: NoteTarget): BearParams {
+  return target.id ? { id: target.id } : { title: target.title! };
+}
+
+// Reads a note without showing it, which SQLiteReader can serve when enabled
+export async function openNote(bear: BearClient, target: NoteTarget): Promise<BearNote> {
+  return normalizeNote(await bear.executeWithCallback("open-note", { ...noteTarget(target), open_note: "no", show_window: "no" }));
+}
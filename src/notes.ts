@@ -0,0 +1,115 @@
+// Bear's callbacks are loose about types: `notes` and `tags` may be JSON or
+// plain strings, flags are "yes"/"no", and dates come in several formats.
+// Everything returned to clients goes through here first.
+
+export interface BearNote {
+  identifier: string;
+  title: string;
+  tags: string[];
+  modificationDate?: string;
+  creationDate?: string;
+  pin: boolean;
+  is_trashed: boolean;
+  note?: string;
+}
+
+export interface BearTag {
+  name: string;
+}
+
+export function toBoolean(value: unknown): boolean {
+  if (typeof value === "string") {
+    return value === "yes" || value === "true" || value === "1";
+  }
+  return Boolean(value);
+}
+
+export function toISODate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  let date = new Date(value as string | number);
+  if (Number.isNaN(date.getTime()) && typeof value === "string") {
+    // "2024-01-02 10:00:00 +0100" -> "2024-01-02T10:00:00+01:00"
+    date = new Date(value.trim().replace(" ", "T").replace(/\s*([+-]\d{2}):?(\d{2})$/, "$1:$2"));
+  }
+
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function toTagList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map((tag) => (typeof tag === "string" ? tag : tag && typeof tag === "object" ? String(tag.name ?? "") : ""))
+      .filter(Boolean);
+  }
+
+  if (typeof value === "string" && value.trim()) {
+    try {
+      return toTagList(JSON.parse(value));
+    } catch {
+      return value.split(",").map((tag) => tag.trim()).filter(Boolean);
+    }
+  }
+
+  return [];
+}
+
+export function normalizeNote(raw: Record<string, any>): BearNote {
+  const note: BearNote = {
+    identifier: String(raw.identifier ?? raw.id ?? ""),
+    title: String(raw.title ?? ""),
+    tags: toTagList(raw.tags),
+    modificationDate: toISODate(raw.modificationDate),
+    creationDate: toISODate(raw.creationDate),
+    pin: toBoolean(raw.pin),
+    is_trashed: toBoolean(raw.is_trashed),
+  };
+
+  if (typeof raw.note === "string") {
+    note.note = raw.note;
+  }
+
+  return note;
+}
+
+export function normalizeNoteList(data: Record<string, any> | undefined): BearNote[] {
+  let notes = data?.notes;
+
+  if (typeof notes === "string") {
+    try {
+      notes = JSON.parse(notes);
+    } catch {
+      return [];
+    }
+  }
+
+  return Array.isArray(notes)
+    ? notes.filter((n) => n && typeof n === "object").map((n) => normalizeNote(n))
+    : [];
+}
+
+export function normalizeTags(data: Record<string, any> | undefined): BearTag[] {
+  return toTagList(data?.tags).map((name) => ({ name }));
+}
+
+function renderLine(note: BearNote): string {
+  const details = [
+    note.tags.length ? note.tags.map((t) => `#${t}`).join(" ") : "",
+    note.modificationDate ? `modified ${note.modificationDate.slice(0, 10)}` : "",
+    note.pin ? "pinned" : "",
+    note.is_trashed ? "trashed" : "",
+  ].filter(Boolean);
+
+  return `- ${note.title || "(untitled)"} [${note.identifier}]${details.length ? ` · ${details.join(" · ")}` : ""}`;
+}
+
+export function renderNoteList(notes: BearNote[]): string {
+  return notes.length ? notes.map(renderLine).join("\n") : "No notes found.";
+}
+
+export function renderNote(note: BearNote): string {
+  const header = renderLine(note).slice(2);
+  return note.note !== undefined ? `${header}\n\n${note.note}` : header;
+}
@@ -0,0 +1,194 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { openNote } from "./note-helpers.js";
+import { normalizeNoteList } from "./notes.js";
+import { noteUri } from "./resources.js";
+
+// Notes embedded into a single prompt, to keep it within a sensible context size
+const DEFAULT_NOTE_LIMIT = 10;
+
+export type PromptMessage =
+  | { role: "user" | "assistant"; content: { type: "text"; text: string } }
+  | { role: "user" | "assistant"; content: { type: "resource"; resource: { uri: string; mimeType: string; text: string } } };
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build(args: Record<string, string>, bear: BearClient): Promise<PromptMessage[]>;
+}
+
+function text(value: string): PromptMessage {
+  return { role: "user", content: { type: "text", text: value } };
+}
+
+function noteLimit(args: Record<string, string>): number {
+  const limit = Number(args.limit ?? DEFAULT_NOTE_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `limit must be a positive integer, got: ${args.limit}`);
+  }
+  return limit;
+}
+
+// Fetches each listed note's content and embeds it as a bear://note resource
+async function embedNotes(bear: BearClient, data: Record<string, any>, limit: number): Promise<PromptMessage[]> {
+  const notes = normalizeNoteList(data);
+  const messages: PromptMessage[] = [];
+
+  for (const note of notes.slice(0, limit)) {
+    if (!note.identifier) continue;
+    const content = await openNote(bear, { id: note.identifier });
+    messages.push({
+      role: "user",
+      content: {
+        type: "resource",
+        resource: { uri: noteUri(note.identifier), mimeType: "text/markdown", text: content.note ?? "" },
+      },
+    });
+  }
+
+  if (notes.length > limit) {
+    messages.push(text(`(${notes.length - limit} more notes were left out; raise the limit argument to include them.)`));
+  }
+
+  return messages;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "daily_review",
+    description: "Turn today's Bear notes into a daily review",
+    arguments: [
+      { name: "focus", description: "What the review should concentrate on, e.g. decisions or open questions" },
+      { name: "limit", description: `Maximum number of notes to include (default ${DEFAULT_NOTE_LIMIT})` },
+    ],
+    async build(args, bear) {
+      const today = await bear.executeWithCallback("today", { show_window: "no" });
+      const notes = await embedNotes(bear, today, noteLimit(args));
+
+      if (notes.length === 0) {
+        return [text("I have no Bear notes from today. Help me write a short daily review from scratch by asking what I worked on.")];
+      }
+
+      return [
+        text(
+          "Write a daily review from my Bear notes for today, which follow. " +
+          "Summarize what got done, list decisions and open questions, and pull out follow-up tasks as a Markdown checklist." +
+          (args.focus ? ` Concentrate on: ${args.focus}.` : "") +
+          " When you're done, offer to save the review with bear_create_note."
+        ),
+        ...notes,
+      ];
+    },
+  },
+  {
+    name: "tag_digest",
+    description: "Summarize the Bear notes filed under a tag",
+    arguments: [
+      { name: "tag", description: "Tag to summarize, e.g. work/projects", required: true },
+      { name: "limit", description: `Maximum number of notes to include (default ${DEFAULT_NOTE_LIMIT})` },
+    ],
+    async build(args, bear) {
+      const tagged = await bear.executeWithCallback("open-tag", { name: args.tag, show_window: "no" });
+      const notes = await embedNotes(bear, tagged, noteLimit(args));
+
+      if (notes.length === 0) {
+        return [text(`I have no Bear notes tagged #${args.tag}. Suggest how I could start collecting notes under it.`)];
+      }
+
+      return [
+        text(
+          `Summarize my Bear notes tagged #${args.tag}, which follow. ` +
+          "Group related notes into themes, highlight anything recent or unresolved, and reference each note by its title."
+        ),
+        ...notes,
+      ];
+    },
+  },
+  {
+    name: "meeting_note",
+    description: "Draft a structured meeting note and file it in Bear",
+    arguments: [
+      { name: "title", description: "Meeting title", required: true },
+      { name: "attendees", description: "Comma-separated list of attendees" },
+      { name: "agenda", description: "Agenda items or context for the meeting" },
+      { name: "tags", description: "Comma-separated tags for the note (default meetings)" },
+    ],
+    async build(args) {
+      const date = new Date().toISOString().slice(0, 10);
+      const template = [
+        `# ${args.title}`,
+        "",
+        `Date: ${date}`,
+        `Attendees: ${args.attendees ?? ""}`,
+        "",
+        "## Agenda",
+        args.agenda ?? "",
+        "",
+        "## Notes",
+        "",
+        "## Decisions",
+        "",
+        "## Action Items",
+        "- [ ] ",
+      ].join("\n");
+
+      return [
+        text(
+          "Help me prepare a meeting note using this template. Fill in the agenda from what I tell you, " +
+          `then create it with bear_create_note using the title "${args.title}" and tags "${args.tags ?? "meetings"}".\n\n${template}`
+        ),
+      ];
+    },
+  },
+  {
+    name: "web_clipping",
+    description: "Clip a web page into Bear and file it with tags",
+    arguments: [
+      { name: "url", description: "Page to clip", required: true },
+      { name: "tags", description: "Comma-separated tags to file the clipping under" },
+    ],
+    // Building a prompt must not change the library, so the clipping itself is left to the model
+    async build(args) {
+      const tags = args.tags ? ` and tags "${args.tags}"` : "";
+      return [
+        text(
+          `Clip ${args.url} into Bear by calling bear_grab_url with url "${args.url}"${tags}. ` +
+          "Then read the new note with bear_open_note using the id it returns, summarize the clipping in a few bullet points and suggest any further tags. " +
+          'To add the summary or tags, use bear_add_text with that id and mode "prepend".'
+        ),
+      ];
+    },
+  },
+];
+
+export class BearPrompts {
+  constructor(private bear: BearClient) {}
+
+  list() {
+    return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+  }
+
+  async get(name: string, args: Record<string, string> = {}) {
+    const prompt = PROMPTS.find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter((a) => a.required && !args[a.name]).map((a) => a.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(", ")}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: await prompt.build(args, this.bear),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient, BearParams } from "./bear-client.js";
+import { BEAR_ACTIONS } from "./bear-url.js";
+import { ArgsOf, ObjectSchema, validateArgs } from "./validation.js";
+
+// How a tool argument becomes a Bear URL parameter:
+// - "string": passed through as text
+// - "flag": booleans become yes/no
+// - "list": arrays are joined with commas, strings passed through
+export type ParamKind = "string" | "flag" | "list";
+
+// The object form renames the parameter, or keeps an empty string that would
+// otherwise be left out (e.g. `text: ""` to clear a note)
+export type ParamSpec = ParamKind | { kind: ParamKind; param?: string; keepEmpty?: boolean };
+
+export type ParamMapping<A> = {
+  [K in keyof A]?: ParamSpec;
+};
+
+export type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+};
+
+export interface ToolDefinition<S extends ObjectSchema = ObjectSchema> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  // Bear action the tool maps to, with its argument mapping
+  action?: string;
+  params?: ParamMapping<ArgsOf<S>>;
+  // Rewrites the mapped parameters before the URL is built, e.g. to encode files
+  prepare?: (params: BearParams) => Promise<BearParams>;
+  // Wait for Bear's x-success data instead of firing and forgetting
+  callback?: boolean;
+  format?: (args: ArgsOf<S>, data: Record<string, any> | undefined) => ToolResult | string;
+  // Compound tools that need more than one Bear call implement this instead of `action`
+  handler?: (args: ArgsOf<S>, bear: BearClient) => Promise<ToolResult | string>;
+}
+
+export function defineTool<const S extends ObjectSchema>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+export function textResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+export function jsonResult(value: unknown): ToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+// Structured JSON first, followed by a compact rendering for reading
+export function structuredResult(value: unknown, rendering: string): ToolResult {
+  return {
+    content: [
+      { type: "text", text: JSON.stringify(value, null, 2) },
+      { type: "text", text: rendering },
+    ],
+  };
+}
+
+export function mapParams<A extends object>(mapping: ParamMapping<A>, args: A): BearParams {
+  const params: BearParams = {};
+
+  for (const [key, spec] of Object.entries(mapping) as Array<[string, ParamSpec]>) {
+    const value = (args as Record<string, unknown>)[key];
+    if (value === undefined || value === null || (value === "" && (typeof spec === "string" || !spec.keepEmpty))) {
+      continue;
+    }
+
+    const kind = typeof spec === "string" ? spec : spec.kind;
+    const param = typeof spec === "string" ? key : spec.param ?? key;
+
+    switch (kind) {
+      case "string":
+        params[param] = String(value);
+        break;
+      case "flag":
+        params[param] = value ? "yes" : "no";
+        break;
+      case "list":
+        params[param] = Array.isArray(value) ? value.join(",") : String(value);
+        break;
+    }
+  }
+
+  return params;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+
+  register<S extends ObjectSchema>(tool: ToolDefinition<S>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    if (!tool.action && !tool.handler) {
+      throw new Error(`Tool ${tool.name} needs either an action or a handler`);
+    }
+    if (tool.action && !BEAR_ACTIONS.has(tool.action)) {
+      throw new Error(`Tool ${tool.name} uses unknown Bear action: ${tool.action}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list() {
+    return [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
+  }
+
+  async call(name: string, rawArgs: unknown, bear: BearClient): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const args = validateArgs(name, tool.inputSchema, rawArgs);
+    let result: ToolResult | string;
+
+    if (tool.handler) {
+      result = await tool.handler(args, bear);
+    } else {
+      let params = mapParams(tool.params ?? {}, args);
+      if (tool.prepare) {
+        params = await tool.prepare(params);
+      }
+      const data = tool.callback
+        ? await bear.executeWithCallback(tool.action!, params)
+        : (await bear.run(tool.action!, params), undefined);
+      result = tool.format ? tool.format(args, data) : data !== undefined ? jsonResult(data) : `Ran ${tool.action} in Bear`;
+    }
+
+    return typeof result === "string" ? textResult(result) : result;
+  }
+}
@@ -0,0 +1,111 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { URL } from "url";
+import { BearClient } from "./bear-client.js";
+import { openNote } from "./note-helpers.js";
+import { normalizeNoteList } from "./notes.js";
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const VIEWS: Record<string, { action: string; name: string; description: string }> = {
+  today: { action: "today", name: "Today", description: "Notes created or modified today" },
+  todo: { action: "todo", name: "Todo", description: "Notes with incomplete todos" },
+};
+
+export function noteUri(identifier: string): string {
+  return `bear://note/${encodeURIComponent(identifier)}`;
+}
+
+// Exposes notes, tags and Bear's special views as MCP resources, read through
+// the same callback calls the tools use. Reads never bring Bear to the front.
+export class BearResources {
+  constructor(private bear: BearClient) {}
+
+  async list() {
+    const resources = Object.entries(VIEWS).map(([key, view]) => ({
+      uri: `bear://${key}`,
+      name: view.name,
+      description: view.description,
+      mimeType: "application/json",
+    }));
+
+    // Listing notes needs the API token; without one only the views are offered
+    try {
+      const data = await this.bear.executeWithCallback("search", { show_window: "no" });
+      for (const note of normalizeNoteList(data)) {
+        if (note.identifier) {
+          resources.push({
+            uri: noteUri(note.identifier),
+            name: note.title || note.identifier,
+            description: "Bear note",
+            mimeType: "text/markdown",
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Could not list Bear notes as resources: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return resources;
+  }
+
+  templates() {
+    return [
+      {
+        uriTemplate: "bear://note/{identifier}",
+        name: "Bear note",
+        description: "A note's Markdown content by its unique identifier",
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: "bear://tag/{name}",
+        name: "Bear tag",
+        description: "The notes filed under a tag, including nested tags",
+        mimeType: "application/json",
+      },
+    ];
+  }
+
+  async read(uri: string): Promise<ResourceContents[]> {
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+
+    if (parsed.protocol !== "bear:") {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+
+    const path = decodeURIComponent(parsed.pathname.replace(/^\//, ""));
+
+    switch (parsed.host) {
+      case "note": {
+        if (!path) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing note identifier in ${uri}`);
+        }
+        const note = await openNote(this.bear, { id: path });
+        return [{ uri, mimeType: "text/markdown", text: note.note ?? "" }];
+      }
+      case "tag": {
+        if (!path) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing tag name in ${uri}`);
+        }
+        const data = await this.bear.executeWithCallback("open-tag", { name: path, show_window: "no" });
+        return [{ uri, mimeType: "application/json", text: JSON.stringify(normalizeNoteList(data), null, 2) }];
+      }
+      default: {
+        const view = VIEWS[parsed.host];
+        if (!view || path) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown Bear resource: ${uri}`);
+        }
+        const data = await this.bear.executeWithCallback(view.action, { show_window: "no" });
+        return [{ uri, mimeType: "application/json", text: JSON.stringify(normalizeNoteList(data), null, 2) }];
+      }
+    }
+  }
+}
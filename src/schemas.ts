@@ -0,0 +1,568 @@
+import { listingProperties } from "./listing.js";
+import { ArgsOf, ObjectSchema } from "./validation.js";
+
+// Input schemas for every tool. Each schema is also the source of the
+// handler's argument type, so the two cannot drift apart.
+
+export const openNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    header: { type: "string", description: "Header inside the note" },
+    exclude_trashed: { type: "boolean", description: "Exclude trashed notes" },
+    new_window: { type: "boolean", description: "Open in external window (macOS only)" },
+    edit: { type: "boolean", description: "Place cursor in note editor" },
+    selected: { type: "string", description: "Selected text in note" },
+    pin: { type: "boolean", description: "Pin note to top of list" },
+    float: { type: "boolean", description: "Float note window" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    open_note: { type: "boolean", description: "Open note after command" },
+    search: { type: "string", description: "Search term within note" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type OpenNoteArgs = ArgsOf<typeof openNoteSchema>;
+
+export const createNoteSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", description: "Note title" },
+    text: { type: "string", description: "Note content" },
+    tags: { type: "string", description: "Comma-separated list of tags" },
+    pin: { type: "boolean", description: "Pin note to top of list" },
+    timestamp: { type: "boolean", description: "Prepend current date and time" },
+    clipboard: { type: "boolean", description: "Get text from clipboard" },
+    file: { type: "string", description: "File to attach: a path inside an allowed directory, base64 data, or a data: URI" },
+    filename: { type: "string", description: "Filename for the attachment (inferred from the path or data when omitted)" },
+    open_note: { type: "boolean", description: "Open note after creation" },
+    new_window: { type: "boolean", description: "Open in new window" },
+    float: { type: "boolean", description: "Float note window" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    edit: { type: "boolean", description: "Place cursor in note editor" },
+    type: { type: "string", description: "Note type" },
+    url: { type: "string", description: "URL to include in note" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type CreateNoteArgs = ArgsOf<typeof createNoteSchema>;
+
+export const addTextSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    text: { type: "string", description: "Text to add" },
+    mode: { type: "string", enum: ["append", "prepend", "replace_all", "replace"], description: "How to add the text" },
+    new_line: { type: "boolean", description: "Force text on new line when appending" },
+    header: { type: "string", description: "Add text to specific header" },
+    selected: { type: "string", description: "Selected text in note" },
+    clipboard: { type: "boolean", description: "Get text from clipboard" },
+    exclude_trashed: { type: "boolean", description: "Exclude trashed notes" },
+    open_note: { type: "boolean", description: "Open note after adding text" },
+    new_window: { type: "boolean", description: "Open in new window" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    edit: { type: "boolean", description: "Place cursor in note editor" },
+    timestamp: { type: "boolean", description: "Prepend current date and time" },
+  },
+  required: ["text"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type AddTextArgs = ArgsOf<typeof addTextSchema>;
+
+export const addFileSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    selected: { type: "string", description: "Selected text in note" },
+    file: { type: "string", description: "File to attach: a path inside an allowed directory, base64 data, or a data: URI" },
+    header: { type: "string", description: "Add file to specific header" },
+    filename: { type: "string", description: "Filename for the attachment (inferred from the path or data when omitted)" },
+    mode: { type: "string", enum: ["append", "prepend", "replace_all", "replace"], description: "How to add the file" },
+    open_note: { type: "boolean", description: "Open note after adding file" },
+    new_window: { type: "boolean", description: "Open in new window" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    edit: { type: "boolean", description: "Place cursor in note editor" },
+  },
+  required: ["file"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type AddFileArgs = ArgsOf<typeof addFileSchema>;
+
+export const searchSchema = {
+  type: "object",
+  properties: {
+    term: { type: "string", description: "Search term" },
+    tag: { type: "string", description: "Tag to search within" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    ...listingProperties,
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type SearchArgs = ArgsOf<typeof searchSchema>;
+
+export const getTagsSchema = {
+  type: "object",
+  properties: {
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GetTagsArgs = ArgsOf<typeof getTagsSchema>;
+
+export const openTagSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Tag name or comma-separated list of tags" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    ...listingProperties,
+  },
+  required: ["name"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type OpenTagArgs = ArgsOf<typeof openTagSchema>;
+
+export const trashNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    search: { type: "string", description: "Search term to find notes to trash; every matching note is affected" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    confirm: { type: "string", description: "Confirmation token from a previous dry-run preview; performs the operation" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["search"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type TrashNoteArgs = ArgsOf<typeof trashNoteSchema>;
+
+export const archiveNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    search: { type: "string", description: "Search term to find notes to archive; every matching note is affected" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    confirm: { type: "string", description: "Confirmation token from a previous dry-run preview; performs the operation" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["search"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ArchiveNoteArgs = ArgsOf<typeof archiveNoteSchema>;
+
+export const getUntaggedSchema = {
+  type: "object",
+  properties: {
+    search: { type: "string", description: "Search term" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    ...listingProperties,
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GetUntaggedArgs = ArgsOf<typeof getUntaggedSchema>;
+
+export const getTodoSchema = {
+  type: "object",
+  properties: {
+    search: { type: "string", description: "Search term" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    ...listingProperties,
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GetTodoArgs = ArgsOf<typeof getTodoSchema>;
+
+export const getTodaySchema = {
+  type: "object",
+  properties: {
+    search: { type: "string", description: "Search term" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+    ...listingProperties,
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GetTodayArgs = ArgsOf<typeof getTodaySchema>;
+
+export const getLockedSchema = {
+  type: "object",
+  properties: {
+    search: { type: "string", description: "Search term" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GetLockedArgs = ArgsOf<typeof getLockedSchema>;
+
+export const grabUrlSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string", description: "URL to grab content from" },
+    tags: { type: "string", description: "Comma-separated list of tags" },
+    pin: { type: "boolean", description: "Pin note to top of list" },
+    wait: { type: "boolean", description: "Wait for content to load" },
+  },
+  required: ["url"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type GrabUrlArgs = ArgsOf<typeof grabUrlSchema>;
+
+export const renameTagSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Current tag name" },
+    new_name: { type: "string", description: "New tag name" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["name", "new_name"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type RenameTagArgs = ArgsOf<typeof renameTagSchema>;
+
+export const deleteTagSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Tag name to delete" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["name"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type DeleteTagArgs = ArgsOf<typeof deleteTagSchema>;
+
+export const untrashNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["id"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type UntrashNoteArgs = ArgsOf<typeof untrashNoteSchema>;
+
+export const pinNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type PinNoteArgs = ArgsOf<typeof pinNoteSchema>;
+
+export const addTagsSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    tags: { type: "string", description: "Comma-separated list of tags to add" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["tags"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type AddTagsArgs = ArgsOf<typeof addTagsSchema>;
+
+export const removeTagSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    tag: { type: "string", description: "Tag to remove; nested tags below it are kept" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["tag"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type RemoveTagArgs = ArgsOf<typeof removeTagSchema>;
+
+export const changeThemeSchema = {
+  type: "object",
+  properties: {
+    theme: { type: "string", description: "Theme name as shown in Bear's preferences, e.g. Red Graphite, Dracula, Solarized Light" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["theme"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ChangeThemeArgs = ArgsOf<typeof changeThemeSchema>;
+
+export const changeFontSchema = {
+  type: "object",
+  properties: {
+    font: { type: "string", description: "Font name as shown in Bear's preferences, e.g. Avenir Next, Menlo, Georgia" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["font"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ChangeFontArgs = ArgsOf<typeof changeFontSchema>;
+
+export const editSectionSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    operation: {
+      type: "string",
+      enum: ["replace_section", "insert_after_section", "move_section", "delete_section"],
+      description: "replace_section replaces everything under the heading, insert_after_section adds text after the section, move_section moves it next to another section, delete_section removes it with its heading",
+    },
+    path: { type: "string", description: "Header path of the section, outermost first, e.g. Projects > Q3 > Risks" },
+    text: { type: "string", description: "Markdown for replace_section and insert_after_section" },
+    to: { type: "string", description: "Header path of the section to move next to (move_section)" },
+    position: { type: "string", enum: ["before", "after"], description: "Place the moved section before or after `to` (default after)" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["operation", "path"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type EditSectionArgs = ArgsOf<typeof editSectionSchema>;
+
+export const listTodosSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Only list the todos of this note" },
+    search: { type: "string", description: "Only look in todo notes matching this search term" },
+    status: { type: "string", enum: ["open", "done", "all"], description: "Which items to return (default open)" },
+    tag: { type: "string", description: "Only items with this inline tag or a tag nested below it" },
+    limit: { type: "integer", minimum: 1, maximum: 1000, description: "Maximum number of items to return (default 200)" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ListTodosArgs = ArgsOf<typeof listTodosSchema>;
+
+export const toggleTodoSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+    line: { type: "integer", minimum: 1, description: "Line number of the item, as returned by bear_list_todos" },
+    text: { type: "string", description: "Text of the item; picks it by substring, or checks the line still holds it" },
+    done: { type: "boolean", description: "Check (true) or uncheck (false) the item; flips it when omitted" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ToggleTodoArgs = ArgsOf<typeof toggleTodoSchema>;
+
+export const listTemplatesSchema = {
+  type: "object",
+  properties: {
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ListTemplatesArgs = ArgsOf<typeof listTemplatesSchema>;
+
+export const createFromTemplateSchema = {
+  type: "object",
+  properties: {
+    template: { type: "string", description: "Template name, as listed by bear_list_templates" },
+    variables: {
+      type: "object",
+      additionalProperties: { type: "string" },
+      description: "Values for the template's {{placeholders}}, e.g. {\"person\": \"Sam\"}",
+    },
+    title: { type: "string", description: "Note title, overriding the template's title pattern" },
+    tags: { type: "string", description: "Comma-separated tags to add to the template's tags" },
+    pin: { type: "boolean", description: "Pin the note, overriding the template" },
+    open_note: { type: "boolean", description: "Open note after creation" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["template"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type CreateFromTemplateArgs = ArgsOf<typeof createFromTemplateSchema>;
+
+export const undoLastSchema = {
+  type: "object",
+  properties: {
+    count: { type: "integer", minimum: 1, maximum: 50, description: "Number of most recent operations to undo (default 1)" },
+    id: { type: "string", description: "Undo this specific journal entry from bear_list_history instead" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type UndoLastArgs = ArgsOf<typeof undoLastSchema>;
+
+export const listHistorySchema = {
+  type: "object",
+  properties: {
+    limit: { type: "integer", minimum: 1, maximum: 100, description: "Maximum number of entries to return (default 20)" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ListHistoryArgs = ArgsOf<typeof listHistorySchema>;
+
+export const noteLinksSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Note title" },
+  },
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type NoteLinksArgs = ArgsOf<typeof noteLinksSchema>;
+
+export const findBrokenLinksSchema = {
+  type: "object",
+  properties: {
+    limit: { type: "integer", minimum: 1, maximum: 1000, description: "Maximum number of links to return (default 200)" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type FindBrokenLinksArgs = ArgsOf<typeof findBrokenLinksSchema>;
+
+export const findOrphansSchema = {
+  type: "object",
+  properties: {
+    untagged_only: { type: "boolean", description: "Only report orphaned notes that also have no tags" },
+    limit: { type: "integer", minimum: 1, maximum: 1000, description: "Maximum number of notes to return (default 200)" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type FindOrphansArgs = ArgsOf<typeof findOrphansSchema>;
+
+export const renameNoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Note unique identifier" },
+    title: { type: "string", description: "Current note title" },
+    new_title: { type: "string", description: "New note title" },
+    update_links: { type: "boolean", description: "Rewrite [[links]] to the note in other notes (default true)" },
+    show_window: { type: "boolean", description: "Show Bear window" },
+  },
+  required: ["new_title"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type RenameNoteArgs = ArgsOf<typeof renameNoteSchema>;
+
+export const semanticSearchSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string", description: "What to look for, in words or as a question" },
+    mode: {
+      type: "string",
+      enum: ["keyword", "semantic", "hybrid"],
+      description: "Rank by BM25 keyword score, embedding similarity, or both (default hybrid when embeddings are configured, keyword otherwise)",
+    },
+    tag: { type: "string", description: "Only search notes with this tag or a tag nested below it" },
+    limit: { type: "integer", minimum: 1, maximum: 50, description: "Maximum number of passages to return (default 10)" },
+    query_vector: {
+      type: "array",
+      items: { type: "number" },
+      description: "Precomputed embedding of the query, for use with precomputed note vectors",
+    },
+    refresh: { type: "boolean", description: "Re-index notes changed since the last search first (default true)" },
+  },
+  required: ["query"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type SemanticSearchArgs = ArgsOf<typeof semanticSearchSchema>;
+
+export const exportSchema = {
+  type: "object",
+  properties: {
+    tag: { type: "string", description: "Export notes with this tag" },
+    search: { type: "string", description: "Export notes matching this search term" },
+    ids: { type: "array", items: { type: "string" }, description: "Export these notes by identifier" },
+    directory: {
+      type: "string",
+      description: "Subdirectory of the export directory to write to (default bear-export-<timestamp>)",
+    },
+    archive: { type: "boolean", description: "Also write all notes to a single notes.json archive" },
+    index: { type: "boolean", description: "Also write an index.md linking to every exported note" },
+    overwrite: { type: "boolean", description: "Write into the directory even if it already contains files" },
+  },
+  anyOf: [{ required: ["tag"] }, { required: ["search"] }, { required: ["ids"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ExportArgs = ArgsOf<typeof exportSchema>;
+
+export const importSchema = {
+  type: "object",
+  properties: {
+    directory: { type: "string", description: "Local directory of Markdown files, inside BEAR_ATTACHMENT_DIRS" },
+    recursive: { type: "boolean", description: "Include subdirectories (default true)" },
+    tags: { type: "string", description: "Comma-separated tags to add to every imported note" },
+    on_duplicate: {
+      type: "string",
+      enum: ["skip", "create"],
+      description: "What to do with files whose title matches an existing note (default skip)",
+    },
+    dry_run: { type: "boolean", description: "Report what would be imported without creating notes" },
+    limit: { type: "integer", minimum: 1, maximum: 1000, description: "Maximum number of files to import (default 200)" },
+  },
+  required: ["directory"],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type ImportArgs = ArgsOf<typeof importSchema>;
+
+export const tagTreeSchema = {
+  type: "object",
+  properties: {
+    tag: { type: "string", description: "Only show this tag and the tags nested below it" },
+    depth: { type: "integer", minimum: 1, maximum: 10, description: "Number of nesting levels to show" },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type TagTreeArgs = ArgsOf<typeof tagTreeSchema>;
+
+export const tagHygieneSchema = {
+  type: "object",
+  properties: {
+    max_notes: {
+      type: "integer",
+      minimum: 1,
+      description: "Flag tags used directly by more notes than this (default 25% of all notes, at least 20)",
+    },
+  },
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export type TagHygieneArgs = ArgsOf<typeof tagHygieneSchema>;
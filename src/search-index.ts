@@ -0,0 +1,401 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { BearClient } from "./bear-client.js";
+import { listAllNotes, readNoteBody } from "./corpus.js";
+import { CommandEmbedder, cosineSimilarity, Embedder, PrecomputedVectors } from "./embeddings.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { SemanticSearchArgs } from "./schemas.js";
+import { formatHeaderPath, parseSections } from "./sections.js";
+
+const INDEX_VERSION = 2;
+const DEFAULT_RESULT_LIMIT = 10;
+// Sections longer than this are split into several passages at blank lines
+const MAX_PASSAGE_CHARS = 2000;
+const SNIPPET_CHARS = 240;
+
+// BM25 parameters, at their usual values
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "with",
+]);
+
+export function defaultIndexPath(): string {
+  return join(homedir(), ".config", "bear-mcp-server", "search-index.json");
+}
+
+export interface Passage {
+  // Headings above the passage, outermost first; empty before the first heading
+  path: string[];
+  // 1-based line the passage starts at
+  line: number;
+  text: string;
+  // Token counts for BM25, including the headings (and the title before the first one)
+  terms: Record<string, number>;
+  length: number;
+  vector?: number[];
+}
+
+export interface IndexedNote {
+  identifier: string;
+  title: string;
+  tags: string[];
+  modificationDate?: string;
+  passages: Passage[];
+}
+
+interface IndexFile {
+  version: number;
+  // Name of the embedder the stored vectors came from
+  embedder?: string;
+  notes: Record<string, IndexedNote>;
+  // Passages containing each term, kept up to date as notes are re-indexed
+  documentFrequency: Record<string, number>;
+  passages: number;
+  tokens: number;
+}
+
+export interface SearchHit {
+  identifier: string;
+  title: string;
+  // Heading to pass to bear_open_note as `header`
+  header?: string;
+  path: string;
+  line: number;
+  score: number;
+  snippet: string;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "").match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => !STOPWORDS.has(token));
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const token of tokens) counts[token] = (counts[token] ?? 0) + 1;
+  return counts;
+}
+
+// Splits a note into passages by heading, so results can point at a section
+export function splitPassages(text: string, title = ""): Passage[] {
+  const lines = text.split("\n");
+  const sections = parseSections(lines);
+  const starts = [0, ...sections.map((s) => s.start)];
+  const passages: Passage[] = [];
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : lines.length;
+    const path = i === 0 ? [] : sections[i - 1].path;
+    let chunk: string[] = [];
+    let chunkStart = start;
+
+    const flush = (next: number) => {
+      const body = chunk.join("\n").trim();
+      // A heading directly followed by a subheading has nothing of its own
+      const headingOnly = chunkStart === start && i > 0 && chunk.slice(1).every((line) => !line.trim());
+      if (body && !headingOnly) {
+        const tokens = tokenize(`${path.length ? "" : `${title} `}${path.join(" ")} ${body}`);
+        passages.push({ path, line: chunkStart + 1, text: body, terms: countTerms(tokens), length: tokens.length });
+      }
+      chunk = [];
+      chunkStart = next;
+    };
+
+    for (let index = start; index < end; index++) {
+      chunk.push(lines[index]);
+      if (lines[index].trim() === "" && chunk.join("\n").length >= MAX_PASSAGE_CHARS) {
+        flush(index + 1);
+      }
+    }
+    flush(end);
+  });
+
+  return passages;
+}
+
+function snippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const hit = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - SNIPPET_CHARS / 3);
+  const end = Math.min(flat.length, start + SNIPPET_CHARS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${end < flat.length ? "…" : ""}`;
+}
+
+export interface SearchIndexOptions {
+  path?: string;
+  embedder?: Embedder;
+  vectors?: PrecomputedVectors;
+}
+
+// A local BM25 index over note passages, stored as JSON so it survives
+// restarts. Each search first refreshes it: notes whose modification date
+// changed are read and re-indexed, deleted notes are dropped. Passages get
+// vectors from the embedder when one is configured.
+export class SearchIndex {
+  readonly path: string;
+  private embedder?: Embedder;
+  private vectors?: PrecomputedVectors;
+  private data?: IndexFile;
+  private refreshing?: Promise<{ updated: number; removed: number }>;
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.path = options.path ?? defaultIndexPath();
+    this.embedder = options.embedder;
+    this.vectors = options.vectors;
+  }
+
+  // BEAR_SEARCH_INDEX=off disables the index entirely
+  static fromEnv(): SearchIndex | undefined {
+    if (process.env.BEAR_SEARCH_INDEX === "off") {
+      return undefined;
+    }
+    return new SearchIndex({
+      path: process.env.BEAR_SEARCH_INDEX_PATH || undefined,
+      embedder: CommandEmbedder.fromEnv(),
+      vectors: PrecomputedVectors.fromEnv(),
+    });
+  }
+
+  get semantic(): boolean {
+    return Boolean(this.embedder || this.vectors);
+  }
+
+  notes(): IndexedNote[] {
+    return Object.values(this.load().notes);
+  }
+
+  // Concurrent calls share one refresh
+  refresh(bear: BearClient): Promise<{ updated: number; removed: number }> {
+    this.refreshing ??= this.update(bear).finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async update(bear: BearClient): Promise<{ updated: number; removed: number }> {
+    const data = this.load();
+    const listed = await listAllNotes(bear);
+    const seen = new Set<string>();
+    let updated = 0;
+    let removed = 0;
+
+    for (const note of listed) {
+      seen.add(note.identifier);
+      const indexed = data.notes[note.identifier];
+      if (indexed && indexed.modificationDate === note.modificationDate) continue;
+
+      const body = await readNoteBody(bear, note.identifier);
+      if (body === undefined) continue;
+
+      if (indexed) this.count(data, indexed, -1);
+      data.notes[note.identifier] = {
+        identifier: note.identifier,
+        title: note.title,
+        tags: note.tags,
+        modificationDate: note.modificationDate,
+        passages: splitPassages(body, note.title),
+      };
+      this.count(data, data.notes[note.identifier], 1);
+      updated++;
+    }
+
+    for (const identifier of Object.keys(data.notes)) {
+      if (!seen.has(identifier)) {
+        this.count(data, data.notes[identifier], -1);
+        delete data.notes[identifier];
+        removed++;
+      }
+    }
+
+    const switched = data.embedder !== this.embedder?.name;
+    const embedded = await this.embedMissing(data);
+    if (updated || removed || embedded || switched) {
+      this.save(data);
+    }
+    return { updated, removed };
+  }
+
+  // Adds a note's passages to the corpus statistics, or takes them out
+  private count(data: IndexFile, note: IndexedNote, sign: 1 | -1): void {
+    for (const passage of note.passages) {
+      data.passages += sign;
+      data.tokens += sign * passage.length;
+      for (const term of Object.keys(passage.terms)) {
+        const df = (data.documentFrequency[term] ?? 0) + sign;
+        if (df > 0) data.documentFrequency[term] = df;
+        else delete data.documentFrequency[term];
+      }
+    }
+  }
+
+  // Vectors from another embedder aren't comparable, so switching models
+  // re-embeds everything
+  private async embedMissing(data: IndexFile): Promise<number> {
+    const name = this.embedder?.name;
+    if (data.embedder !== name) {
+      for (const note of Object.values(data.notes)) {
+        for (const passage of note.passages) delete passage.vector;
+      }
+      data.embedder = name;
+    }
+    if (!this.embedder) {
+      return 0;
+    }
+
+    const pending = Object.values(data.notes).flatMap((note) =>
+      note.passages.filter((passage) => !passage.vector).map((passage) => ({ note, passage }))
+    );
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const vectors = await this.embedder.embed(pending.map(({ note, passage }) => `${note.title}\n${passage.text}`));
+    pending.forEach(({ passage }, i) => {
+      passage.vector = vectors[i];
+    });
+    return pending.length;
+  }
+
+  async queryVector(query: string): Promise<number[] | undefined> {
+    return this.embedder ? (await this.embedder.embed([query]))[0] : undefined;
+  }
+
+  // Scores passages by BM25 and, given a query vector, cosine similarity.
+  // Hybrid scoring averages the BM25 score scaled to the best hit with the similarity.
+  // Term statistics cover the whole index, also when filtering by tag.
+  search(
+    query: string,
+    options: { mode: "keyword" | "semantic" | "hybrid"; vector?: number[]; tag?: string; limit: number }
+  ): SearchHit[] {
+    const data = this.load();
+    const tag = options.tag?.replace(/^#/, "").toLowerCase();
+    const notes = Object.values(data.notes).filter((note) =>
+      !tag || note.tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`))
+    );
+    const passages = notes.flatMap((note) => note.passages.map((passage) => ({ note, passage })));
+    if (passages.length === 0) {
+      return [];
+    }
+
+    const terms = [...new Set(tokenize(query))];
+    const averageLength = data.tokens / data.passages || 1;
+    const idf = new Map(terms.map((term) => {
+      const df = data.documentFrequency[term] ?? 0;
+      return [term, Math.log(1 + (data.passages - df + 0.5) / (df + 0.5))];
+    }));
+
+    this.vectors?.load();
+    const scored = passages.map(({ note, passage }) => {
+      let keyword = 0;
+      for (const term of terms) {
+        const frequency = passage.terms[term];
+        if (!frequency) continue;
+        keyword += idf.get(term)! * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * passage.length / averageLength));
+      }
+
+      const passageVector = passage.vector ?? this.vectors?.lookup(note.identifier, formatHeaderPath(passage.path));
+      const similarity = options.vector && passageVector ? cosineSimilarity(options.vector, passageVector) : 0;
+      return { note, passage, keyword, similarity };
+    });
+
+    // Spreading one argument per passage overflows the stack on large libraries
+    const bestKeyword = scored.reduce((best, s) => Math.max(best, s.keyword), 0) || 1;
+    const ranked = scored
+      .map((s) => ({
+        ...s,
+        score: options.mode === "keyword" ? s.keyword :
+          options.mode === "semantic" ? s.similarity :
+          (s.keyword / bestKeyword + Math.max(s.similarity, 0)) / 2,
+      }))
+      .filter((s) => (options.mode === "semantic" ? s.similarity > 0 : s.keyword > 0 || s.similarity > 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+
+    return ranked.map(({ note, passage, score }) => ({
+      identifier: note.identifier,
+      title: note.title,
+      header: passage.path[passage.path.length - 1],
+      path: formatHeaderPath(passage.path),
+      line: passage.line,
+      score: Math.round(score * 1000) / 1000,
+      snippet: snippet(passage.text, terms),
+    }));
+  }
+
+  private load(): IndexFile {
+    if (this.data) {
+      return this.data;
+    }
+
+    let data: IndexFile = { version: INDEX_VERSION, notes: {}, documentFrequency: {}, passages: 0, tokens: 0 };
+    if (existsSync(this.path)) {
+      try {
+        const stored = JSON.parse(readFileSync(this.path, "utf8"));
+        // An index from another version is rebuilt rather than migrated
+        if (stored?.version === INDEX_VERSION && stored.notes) data = stored;
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to read search index ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    this.data = data;
+    return data;
+  }
+
+  private save(data: IndexFile): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(temp, JSON.stringify(data), { mode: 0o600 });
+    renameSync(temp, this.path);
+  }
+}
+
+let shared: { index?: SearchIndex } | undefined;
+
+// The index the tools share. It is built from the environment on first use,
+// so a bad embedding setting fails the search instead of server startup.
+export function sharedSearchIndex(): SearchIndex | undefined {
+  shared ??= { index: SearchIndex.fromEnv() };
+  return shared.index;
+}
+
+export async function semanticSearch(bear: BearClient, index: SearchIndex | undefined, args: SemanticSearchArgs): Promise<ToolResult> {
+  if (!index) {
+    throw new McpError(ErrorCode.InvalidRequest, "The local search index is disabled (BEAR_SEARCH_INDEX=off)");
+  }
+
+  const vector = args.query_vector ?? (args.mode === "keyword" ? undefined : await index.queryVector(args.query));
+  const mode = args.mode ?? (vector ? "hybrid" : "keyword");
+  if (mode !== "keyword" && !vector) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      index.semantic
+        ? `${mode} search needs query_vector when only precomputed vectors are configured`
+        : `${mode} search needs embeddings: set BEAR_EMBEDDING_COMMAND or BEAR_EMBEDDINGS_PATH`
+    );
+  }
+
+  const refreshed = args.refresh === false ? { updated: 0, removed: 0 } : await index.refresh(bear);
+  const results = index.search(args.query, { mode, vector, tag: args.tag, limit: args.limit ?? DEFAULT_RESULT_LIMIT });
+
+  const message = `Found ${results.length} ${mode} match(es) for "${args.query}" in ${index.notes().length} indexed note(s)` +
+    (refreshed.updated || refreshed.removed ? ` (re-indexed ${refreshed.updated}, removed ${refreshed.removed})` : "");
+  const lines = results.map((hit, i) => {
+    // The title is usually the note's first heading too
+    const path = hit.path.startsWith(hit.title) ? hit.path.slice(hit.title.length).replace(/^ > /, "") : hit.path;
+    return `${i + 1}. ${hit.title || "(untitled)"}${path ? ` › ${path}` : ""} [${hit.identifier}] · ${hit.score}\n   ${hit.snippet}`;
+  });
+  return structuredResult(
+    { message, mode, count: results.length, results },
+    lines.length ? `${message}\n\n${lines.join("\n")}` : message
+  );
+}
@@ -0,0 +1,195 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { FENCE, openNote } from "./note-helpers.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { EditSectionArgs } from "./schemas.js";
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const PATH_SEPARATOR = ">";
+
+export interface Section {
+  level: number;
+  title: string;
+  // Titles from the outermost heading down to this one
+  path: string[];
+  // Line of the heading, and the line after the section's last line
+  start: number;
+  end: number;
+}
+
+export function parseHeaderPath(path: string): string[] {
+  return path.split(PATH_SEPARATOR).map((part) => part.trim().replace(/^#+\s*/, "")).filter(Boolean);
+}
+
+export function formatHeaderPath(path: string[]): string {
+  return path.join(` ${PATH_SEPARATOR} `);
+}
+
+// Lines inside fenced code blocks can start with # without being headings
+function headingLines(lines: string[]): Array<{ index: number; level: number; title: string }> {
+  const headings: Array<{ index: number; level: number; title: string }> = [];
+  let fenced = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+      return;
+    }
+    const match = fenced ? null : HEADING.exec(line);
+    if (match) {
+      headings.push({ index, level: match[1].length, title: match[2] });
+    }
+  });
+
+  return headings;
+}
+
+// A section runs from its heading to the next heading of the same or a
+// higher level, so it includes its subsections
+export function parseSections(lines: string[]): Section[] {
+  const headings = headingLines(lines);
+  const stack: Section[] = [];
+
+  return headings.map((heading, i) => {
+    while (stack.length && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+
+    const next = headings.slice(i + 1).find((h) => h.level <= heading.level);
+    const section: Section = {
+      level: heading.level,
+      title: heading.title,
+      path: [...stack.map((s) => s.title), heading.title],
+      start: heading.index,
+      end: next ? next.index : lines.length,
+    };
+
+    stack.push(section);
+    return section;
+  });
+}
+
+// Paths may start at any depth: "Q3 > Risks" matches "Projects > Q3 > Risks"
+export function findSection(sections: Section[], path: string): Section {
+  const wanted = parseHeaderPath(path).map((part) => part.toLowerCase());
+  if (wanted.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Header path must name at least one heading");
+  }
+
+  const matches = sections.filter((section) => {
+    const tail = section.path.slice(-wanted.length).map((part) => part.toLowerCase());
+    return tail.length === wanted.length && tail.every((part, i) => part === wanted[i]);
+  });
+
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  const candidates = (matches.length ? matches : sections).map((s) => `- ${formatHeaderPath(s.path)}`).join("\n");
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    matches.length
+      ? `Header path "${path}" is ambiguous; use a longer path. Matching sections:\n${candidates}`
+      : `No section matches "${path}". Sections in this note:\n${candidates || "(none)"}`
+  );
+}
+
+function textLines(text: string): string[] {
+  return text.replace(/\s+$/, "").split("\n");
+}
+
+// Keeps a blank line between inserted blocks and the text around them,
+// except directly below a heading
+function padded(block: string[], lines: string[], at: number): string[] {
+  const before = at > 0 && lines[at - 1].trim() !== "" && !HEADING.test(lines[at - 1]) ? [""] : [];
+  const after = at < lines.length && block[block.length - 1]?.trim() !== "" ? [""] : [];
+  return [...before, ...block, ...after];
+}
+
+function relevel(block: string[], delta: number): string[] {
+  if (delta === 0) return block;
+
+  let fenced = false;
+  return block.map((line) => {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+      return line;
+    }
+    const match = fenced ? null : HEADING.exec(line);
+    if (!match) return line;
+
+    const level = match[1].length + delta;
+    if (level < 1 || level > 6) {
+      throw new McpError(ErrorCode.InvalidParams, `Moving the section would need a level ${level} heading for "${match[2]}"`);
+    }
+    return `${"#".repeat(level)}${line.slice(match[1].length)}`;
+  });
+}
+
+function applyToLines(lines: string[], args: EditSectionArgs): string[] {
+  const section = findSection(parseSections(lines), args.path);
+
+  switch (args.operation) {
+    case "replace_section": {
+      const body = textLines(args.text ?? "");
+      if (section.end < lines.length && body[body.length - 1].trim() !== "") {
+        body.push("");
+      }
+      return [...lines.slice(0, section.start + 1), ...body, ...lines.slice(section.end)];
+    }
+    case "insert_after_section": {
+      const block = padded(textLines(args.text ?? ""), lines, section.end);
+      return [...lines.slice(0, section.end), ...block, ...lines.slice(section.end)];
+    }
+    case "delete_section":
+      return [...lines.slice(0, section.start), ...lines.slice(section.end)];
+    case "move_section": {
+      const remaining = [...lines.slice(0, section.start), ...lines.slice(section.end)];
+      const target = findSection(parseSections(remaining), args.to!);
+      const position = args.position ?? "after";
+      const at = position === "before" ? target.start : target.end;
+      const block = padded(
+        textLines(relevel(lines.slice(section.start, section.end), target.level - section.level).join("\n")),
+        remaining,
+        at
+      );
+      return [...remaining.slice(0, at), ...block, ...remaining.slice(at)];
+    }
+  }
+}
+
+// Applies one section operation to a note's Markdown and returns the new text
+export function applySectionEdit(text: string, args: EditSectionArgs): string {
+  // The note's final newlines belong to the note, not to its last section
+  const ending = /\n*$/.exec(text)![0];
+  const edited = applyToLines(text.slice(0, text.length - ending.length).split("\n"), args).join("\n");
+  // Removing the last section can leave blank lines behind
+  return edited.replace(/\s+$/, "") + ending;
+}
+
+export async function editSection(bear: BearClient, args: EditSectionArgs): Promise<ToolResult> {
+  if ((args.operation === "replace_section" || args.operation === "insert_after_section") && args.text === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `${args.operation} needs text`);
+  }
+  if (args.operation === "move_section" && !args.to) {
+    throw new McpError(ErrorCode.InvalidParams, "move_section needs the header path to move to in `to`");
+  }
+
+  const note = await openNote(bear, args);
+  const text = applySectionEdit(note.note ?? "", args);
+
+  await bear.run("add-text", {
+    id: note.identifier,
+    text,
+    mode: "replace_all",
+    open_note: "no",
+    show_window: args.show_window ? "yes" : "no",
+  });
+
+  const outline = parseSections(text.split("\n")).map((s) => `${"  ".repeat(s.level - 1)}- ${s.title}`);
+  const message = `Applied ${args.operation} to "${args.path}" in "${note.title}"`;
+  return structuredResult(
+    { message, identifier: note.identifier, title: note.title, operation: args.operation, path: args.path },
+    `${message}\n\n${outline.join("\n")}`
+  );
+}
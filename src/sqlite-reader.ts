@@ -0,0 +1,288 @@
+import Database from "better-sqlite3";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { homedir } from "os";
+import { join } from "path";
+import { LockedError, NotFoundError } from "./errors.js";
+
+// Core Data stores dates as seconds since 2001-01-01T00:00:00Z
+const CORE_DATA_EPOCH = 978307200;
+
+const READ_ACTIONS = ["search", "open-note", "tags", "open-tag", "untagged", "todo", "today"] as const;
+
+export type ReadAction = typeof READ_ACTIONS[number];
+
+// Options that only mean something when Bear shows the note
+const UI_PARAMS = ["new_window", "edit", "pin", "float", "header", "search", "selected"];
+
+export function defaultDatabasePath(): string {
+  return join(
+    homedir(),
+    "Library/Group Containers/9K33E3U3T4.net.shinyfrog.bear/Application Data/database.sqlite"
+  );
+}
+
+interface NoteRow {
+  pk: number;
+  title: string | null;
+  text: string | null;
+  identifier: string;
+  creationDate: number | null;
+  modificationDate: number | null;
+  pinned: number | null;
+  trashed: number | null;
+  encrypted: number | null;
+}
+
+interface TagLink {
+  table: string;
+  noteColumn: string;
+  tagColumn: string;
+}
+
+function isSet(value: string | boolean | undefined): boolean {
+  return value !== undefined && value !== false && value !== "no" && value !== "";
+}
+
+// Escapes LIKE's wildcards so text matches literally; queries use ESCAPE '\'
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function toISODate(value: number | null): string | undefined {
+  return value === null ? undefined : new Date((value + CORE_DATA_EPOCH) * 1000).toISOString();
+}
+
+// Serves Bear's read-only actions straight from its database.sqlite, returning
+// the same shapes the x-callback responses have so handlers don't care which
+// backend answered.
+export class SQLiteReader {
+  private db?: Database.Database;
+  private columns = new Set<string>();
+  private tagLink?: TagLink;
+
+  constructor(readonly path: string = defaultDatabasePath()) {}
+
+  supports(action: string): action is ReadAction {
+    return (READ_ACTIONS as readonly string[]).includes(action);
+  }
+
+  // Only headless reads are answered from the database; anything that should
+  // show a window or note in Bear still has to go through Bear
+  handles(action: string, params: Record<string, string | boolean>): action is ReadAction {
+    if (!this.supports(action) || isSet(params.show_window)) {
+      return false;
+    }
+    if (action === "open-note") {
+      return params.open_note === "no" && !UI_PARAMS.some((key) => isSet(params[key]));
+    }
+    return true;
+  }
+
+  async read(action: ReadAction, params: Record<string, string | boolean>): Promise<Record<string, any>> {
+    const param = (key: string) => (typeof params[key] === "string" ? (params[key] as string) : undefined);
+
+    switch (action) {
+      case "search":
+        return { notes: this.listNotes({ search: param("term"), tags: param("tag") ? [param("tag")!] : undefined }) };
+      case "open-note":
+        return this.openNote(param("id"), param("title"), params.exclude_trashed === "yes");
+      case "tags":
+        return { tags: this.listTags() };
+      case "open-tag":
+        return { notes: this.listNotes({ tags: (param("name") ?? "").split(",").map((t) => t.trim()).filter(Boolean) }) };
+      case "untagged":
+        return { notes: this.listNotes({ search: param("search"), untagged: true }) };
+      case "todo":
+        return { notes: this.listNotes({ search: param("search"), todo: true }) };
+      case "today":
+        return { notes: this.listNotes({ search: param("search"), since: this.startOfToday() }) };
+    }
+  }
+
+  close() {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  private open(): Database.Database {
+    if (!this.db) {
+      try {
+        this.db = new Database(this.path, { readonly: true, fileMustExist: true });
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Cannot open Bear database at ${this.path}: ${error instanceof Error ? error.message : String(error)}. Set BEAR_DATABASE_PATH to its location.`
+        );
+      }
+
+      const noteColumns = this.db.prepare("PRAGMA table_info(ZSFNOTE)").all() as Array<{ name: string }>;
+      this.columns = new Set(noteColumns.map((c) => c.name));
+      this.tagLink = this.findTagLink(this.db);
+    }
+
+    return this.db;
+  }
+
+  // The note/tag join table is named after Core Data entity numbers, which
+  // differ between Bear versions (Z_7TAGS in Bear 1, Z_5TAGS in Bear 2)
+  private findTagLink(db: Database.Database): TagLink {
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name GLOB 'Z_[0-9]*TAGS'")
+      .all() as Array<{ name: string }>;
+
+    for (const { name } of tables) {
+      const columns = (db.prepare(`PRAGMA table_info(${name})`).all() as Array<{ name: string }>).map((c) => c.name);
+      const noteColumn = columns.find((c) => c.endsWith("NOTES"));
+      const tagColumn = columns.find((c) => c.endsWith("TAGS"));
+      if (noteColumn && tagColumn) {
+        return { table: name, noteColumn, tagColumn };
+      }
+    }
+
+    throw new McpError(ErrorCode.InternalError, `Unrecognized Bear database schema in ${this.path}: no note/tag join table`);
+  }
+
+  private flag(column: string): string {
+    return this.columns.has(column) ? `n.${column}` : "0";
+  }
+
+  private selectNotes(): string {
+    return `
+      SELECT n.Z_PK AS pk, n.ZTITLE AS title, n.ZTEXT AS text, n.ZUNIQUEIDENTIFIER AS identifier,
+             n.ZCREATIONDATE AS creationDate, n.ZMODIFICATIONDATE AS modificationDate,
+             ${this.flag("ZPINNED")} AS pinned, ${this.flag("ZTRASHED")} AS trashed,
+             ${this.flag("ZENCRYPTED")} AS encrypted
+      FROM ZSFNOTE n`;
+  }
+
+  private listNotes(filter: { search?: string; tags?: string[]; untagged?: boolean; todo?: boolean; since?: number }) {
+    const db = this.open();
+    const link = this.tagLink!;
+    const where = [
+      `${this.flag("ZTRASHED")} = 0`,
+      `${this.flag("ZARCHIVED")} = 0`,
+      `${this.flag("ZPERMANENTLYDELETED")} = 0`,
+    ];
+    const args: Array<string | number> = [];
+
+    // Like Bear, every whitespace-separated word has to match
+    for (const word of (filter.search ?? "").split(/\s+/).filter(Boolean)) {
+      where.push("(n.ZTITLE LIKE ? ESCAPE '\\' OR n.ZTEXT LIKE ? ESCAPE '\\')");
+      args.push(`%${escapeLike(word)}%`, `%${escapeLike(word)}%`);
+    }
+
+    if (filter.tags?.length) {
+      // A tag also matches its nested children (work -> work/meetings)
+      const tagMatch = filter.tags.map(() => "(t.ZTITLE = ? COLLATE NOCASE OR t.ZTITLE LIKE ? ESCAPE '\\')").join(" OR ");
+      where.push(`n.Z_PK IN (
+        SELECT l.${link.noteColumn} FROM ${link.table} l JOIN ZSFNOTETAG t ON t.Z_PK = l.${link.tagColumn}
+        WHERE ${tagMatch})`);
+      for (const tag of filter.tags) {
+        args.push(tag, `${escapeLike(tag)}/%`);
+      }
+    }
+
+    if (filter.untagged) {
+      where.push(`n.Z_PK NOT IN (SELECT ${link.noteColumn} FROM ${link.table})`);
+    }
+
+    if (filter.todo) {
+      where.push(`${this.flag("ZTODOINCOMPLETED")} > 0`);
+    }
+
+    if (filter.since !== undefined) {
+      where.push("n.ZMODIFICATIONDATE >= ?");
+      args.push(filter.since);
+    }
+
+    const rows = db
+      .prepare(`${this.selectNotes()} WHERE ${where.join(" AND ")} ORDER BY pinned DESC, n.ZMODIFICATIONDATE DESC`)
+      .all(...args) as NoteRow[];
+    const tags = this.tagsFor(rows.map((r) => r.pk));
+
+    return rows.map((row) => ({
+      title: row.title ?? "",
+      identifier: row.identifier,
+      tags: tags.get(row.pk) ?? [],
+      modificationDate: toISODate(row.modificationDate),
+      creationDate: toISODate(row.creationDate),
+      pin: row.pinned ? "yes" : "no",
+    }));
+  }
+
+  private openNote(id: string | undefined, title: string | undefined, excludeTrashed: boolean) {
+    const db = this.open();
+    const where = [`${this.flag("ZPERMANENTLYDELETED")} = 0`];
+    const args: string[] = [];
+
+    if (id) {
+      where.push("n.ZUNIQUEIDENTIFIER = ?");
+      args.push(id);
+    } else if (title) {
+      where.push("n.ZTITLE = ? COLLATE NOCASE");
+      args.push(title);
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, "open-note requires an id or title");
+    }
+
+    if (excludeTrashed) {
+      where.push(`${this.flag("ZTRASHED")} = 0`);
+    }
+
+    const row = db
+      .prepare(`${this.selectNotes()} WHERE ${where.join(" AND ")} ORDER BY trashed ASC, n.ZMODIFICATIONDATE DESC LIMIT 1`)
+      .get(...args) as NoteRow | undefined;
+
+    if (!row) {
+      throw new NotFoundError(undefined, `No note with ${id ? `id ${id}` : `title "${title}"`} in ${this.path}`);
+    }
+    if (row.encrypted) {
+      throw new LockedError(undefined, `Note ${row.identifier} is encrypted`);
+    }
+
+    return {
+      note: row.text ?? "",
+      identifier: row.identifier,
+      title: row.title ?? "",
+      tags: this.tagsFor([row.pk]).get(row.pk) ?? [],
+      is_trashed: Boolean(row.trashed),
+      modificationDate: toISODate(row.modificationDate),
+      creationDate: toISODate(row.creationDate),
+    };
+  }
+
+  private listTags() {
+    const db = this.open();
+    const rows = db.prepare("SELECT ZTITLE AS name FROM ZSFNOTETAG WHERE ZTITLE IS NOT NULL ORDER BY ZTITLE COLLATE NOCASE").all() as Array<{ name: string }>;
+    return rows.map((row) => ({ name: row.name }));
+  }
+
+  private tagsFor(notePks: number[]): Map<number, string[]> {
+    const result = new Map<number, string[]>();
+    if (notePks.length === 0) {
+      return result;
+    }
+
+    const link = this.tagLink!;
+    const rows = this.open()
+      .prepare(`
+        SELECT l.${link.noteColumn} AS pk, t.ZTITLE AS name
+        FROM ${link.table} l JOIN ZSFNOTETAG t ON t.Z_PK = l.${link.tagColumn}
+        WHERE l.${link.noteColumn} IN (SELECT value FROM json_each(?))
+        ORDER BY t.ZTITLE`)
+      .all(JSON.stringify(notePks)) as Array<{ pk: number; name: string }>;
+
+    for (const row of rows) {
+      const list = result.get(row.pk) ?? [];
+      list.push(row.name);
+      result.set(row.pk, list);
+    }
+    return result;
+  }
+
+  private startOfToday(): number {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return start.getTime() / 1000 - CORE_DATA_EPOCH;
+  }
+}
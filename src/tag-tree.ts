@@ -0,0 +1,258 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { listAllNotes } from "./corpus.js";
+import { BearNote, normalizeTags } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { TagHygieneArgs, TagTreeArgs } from "./schemas.js";
+import { formatTag } from "./tags.js";
+
+// A tag is oversize when more notes carry it directly than this share of
+// all notes (but at least MIN_OVERSIZE_NOTES)
+const OVERSIZE_SHARE = 0.25;
+const MIN_OVERSIZE_NOTES = 20;
+
+export interface TagNode {
+  // Full tag, e.g. "work/calls"
+  name: string;
+  // Last segment, e.g. "calls"
+  label: string;
+  // Notes tagged with exactly this tag
+  count: number;
+  // Notes tagged with this tag or one nested below it
+  total: number;
+  last_used?: string;
+  children: TagNode[];
+}
+
+export interface NearDuplicate {
+  tags: [string, string];
+  reason: "case" | "plural" | "typo";
+  // Arguments for bear_rename_tag that merge the less used tag into the other
+  merge: { name: string; new_name: string };
+}
+
+interface TagStats {
+  direct: Set<string>;
+  all: Set<string>;
+  lastUsed?: string;
+}
+
+function ancestors(tag: string): string[] {
+  const parts = tag.split("/");
+  return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+function collectStats(tags: string[], notes: BearNote[]): Map<string, TagStats> {
+  const stats = new Map<string, TagStats>();
+  const entry = (name: string) => {
+    let stat = stats.get(name);
+    if (!stat) {
+      stat = { direct: new Set(), all: new Set() };
+      stats.set(name, stat);
+    }
+    return stat;
+  };
+
+  // Tags Bear knows about but no note uses still belong in the tree
+  for (const tag of tags) ancestors(tag).forEach(entry);
+
+  for (const note of notes) {
+    for (const tag of note.tags) {
+      entry(tag).direct.add(note.identifier);
+      for (const name of ancestors(tag)) {
+        const stat = entry(name);
+        stat.all.add(note.identifier);
+        if (note.modificationDate && (!stat.lastUsed || note.modificationDate > stat.lastUsed)) {
+          stat.lastUsed = note.modificationDate;
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+export function buildTagTree(tags: string[], notes: BearNote[]): TagNode[] {
+  const stats = collectStats(tags, notes);
+  const nodes = new Map<string, TagNode>();
+
+  for (const [name, stat] of [...stats].sort(([a], [b]) => a.localeCompare(b))) {
+    nodes.set(name, {
+      name,
+      label: name.split("/").pop()!,
+      count: stat.direct.size,
+      total: stat.all.size,
+      last_used: stat.lastUsed,
+      children: [],
+    });
+  }
+
+  const roots: TagNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.name.includes("/") ? nodes.get(node.name.slice(0, node.name.lastIndexOf("/"))) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+async function loadTagData(bear: BearClient): Promise<{ tags: string[]; notes: BearNote[] }> {
+  const tags = normalizeTags(await bear.executeWithCallback("tags", {})).map((tag) => tag.name);
+  return { tags, notes: await listAllNotes(bear) };
+}
+
+function findNode(nodes: TagNode[], name: string): TagNode | undefined {
+  for (const node of nodes) {
+    if (node.name.toLowerCase() === name.toLowerCase()) return node;
+    const found = findNode(node.children, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function flatten(nodes: TagNode[]): TagNode[] {
+  return nodes.flatMap((node) => [node, ...flatten(node.children)]);
+}
+
+function prune(nodes: TagNode[], depth: number): TagNode[] {
+  return nodes.map((node) => ({ ...node, children: depth > 1 ? prune(node.children, depth - 1) : [] }));
+}
+
+function renderTree(nodes: TagNode[], level = 0): string[] {
+  return nodes.flatMap((node) => {
+    const details = [
+      node.total === node.count ? `${node.count} note(s)` : `${node.count} note(s), ${node.total} with nested`,
+      node.last_used ? `last used ${node.last_used.slice(0, 10)}` : "unused",
+    ];
+    return [`${"  ".repeat(level)}- ${formatTag(node.name)} · ${details.join(" · ")}`, ...renderTree(node.children, level + 1)];
+  });
+}
+
+export async function tagTree(bear: BearClient, args: TagTreeArgs): Promise<ToolResult> {
+  const { tags, notes } = await loadTagData(bear);
+  let tree = buildTagTree(tags, notes);
+
+  if (args.tag) {
+    const node = findNode(tree, args.tag.replace(/^#/, ""));
+    if (!node) {
+      throw new McpError(ErrorCode.InvalidParams, `No tag named ${formatTag(args.tag.replace(/^#/, ""))}`);
+    }
+    tree = [node];
+  }
+  if (args.depth) {
+    tree = prune(tree, args.depth);
+  }
+
+  const message = `${tags.length} tag(s) across ${notes.length} note(s)${args.tag ? `; showing ${formatTag(tree[0].name)}` : ""}`;
+  return structuredResult({ message, tags: tree }, `${message}\n\n${renderTree(tree).join("\n")}`);
+}
+
+// Optimal string alignment distance: edits, counting a swap of two
+// neighbouring characters as one
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function singular(word: string): string {
+  if (/ies$/.test(word) && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word) && word.length > 3) return word.slice(0, -1);
+  return word;
+}
+
+// Short tags differ by one edit all the time (#todo, #toto), so typos are
+// only suspected from five characters on
+function typoLimit(length: number): number {
+  return length < 5 ? 0 : length < 10 ? 1 : 2;
+}
+
+function classify(a: string, b: string): NearDuplicate["reason"] | undefined {
+  const [la, lb] = [a.toLowerCase(), b.toLowerCase()];
+  if (la === lb) {
+    // Tags under parents that only differ in case are merged along with them
+    return a.slice(0, a.lastIndexOf("/") + 1) === b.slice(0, b.lastIndexOf("/") + 1) ? "case" : undefined;
+  }
+
+  // Only siblings are compared beyond case
+  if (a.slice(0, a.lastIndexOf("/") + 1) !== b.slice(0, b.lastIndexOf("/") + 1)) {
+    return undefined;
+  }
+
+  const [sa, sb] = [la.slice(la.lastIndexOf("/") + 1), lb.slice(lb.lastIndexOf("/") + 1)];
+  if (singular(sa) === singular(sb)) return "plural";
+  if (Math.abs(sa.length - sb.length) <= 2 && editDistance(sa, sb) <= typoLimit(Math.min(sa.length, sb.length))) {
+    return "typo";
+  }
+  return undefined;
+}
+
+export function findNearDuplicates(nodes: TagNode[]): NearDuplicate[] {
+  const all = flatten(nodes);
+
+  const duplicates: NearDuplicate[] = [];
+  for (let i = 0; i < all.length; i++) {
+    for (let j = i + 1; j < all.length; j++) {
+      const [a, b] = [all[i], all[j]];
+      const reason = classify(a.name, b.name);
+      if (!reason) continue;
+
+      // Keep the tag more notes use; on a tie, the lowercase or shorter one
+      const keep = a.total !== b.total ? (a.total > b.total ? a : b) :
+        a.name === a.name.toLowerCase() && b.name !== b.name.toLowerCase() ? a :
+        b.name === b.name.toLowerCase() && a.name !== a.name.toLowerCase() ? b :
+        a.name.length <= b.name.length ? a : b;
+      const drop = keep === a ? b : a;
+      duplicates.push({ tags: [a.name, b.name], reason, merge: { name: drop.name, new_name: keep.name } });
+    }
+  }
+  return duplicates;
+}
+
+export async function tagHygiene(bear: BearClient, args: TagHygieneArgs): Promise<ToolResult> {
+  const { tags, notes } = await loadTagData(bear);
+  const tree = buildTagTree(tags, notes);
+  const all = flatten(tree);
+
+  const threshold = args.max_notes ?? Math.max(MIN_OVERSIZE_NOTES, Math.ceil(notes.length * OVERSIZE_SHARE));
+  const nearDuplicates = findNearDuplicates(tree);
+  const empty = all.filter((node) => node.total === 0).map((node) => node.name);
+  const oversize = all
+    .filter((node) => node.count > threshold)
+    .sort((a, b) => b.count - a.count)
+    .map((node) => ({ name: node.name, count: node.count, share: Math.round((node.count / notes.length) * 100) / 100 }));
+
+  const message = `Checked ${all.length} tag(s): ${nearDuplicates.length} near-duplicate pair(s), ${empty.length} empty, ${oversize.length} oversize (over ${threshold} notes)`;
+  const sections: string[] = [message];
+  if (nearDuplicates.length) {
+    sections.push(
+      "Near-duplicates (merge with bear_rename_tag):\n" +
+      nearDuplicates
+        .map((d) => `- ${formatTag(d.tags[0])} ~ ${formatTag(d.tags[1])} (${d.reason}): rename ${formatTag(d.merge.name)} to ${formatTag(d.merge.new_name)}`)
+        .join("\n")
+    );
+  }
+  if (empty.length) {
+    sections.push(`Empty tags:\n${empty.map((name) => `- ${formatTag(name)}`).join("\n")}`);
+  }
+  if (oversize.length) {
+    sections.push(
+      `Oversize tags:\n${oversize.map((o) => `- ${formatTag(o.name)} · ${o.count} note(s), ${Math.round(o.share * 100)}% of all notes`).join("\n")}`
+    );
+  }
+
+  return structuredResult(
+    { message, threshold, near_duplicates: nearDuplicates, empty, oversize },
+    sections.join("\n\n")
+  );
+}
@@ -0,0 +1,146 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { FENCE, openNote } from "./note-helpers.js";
+import { toTagList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { AddTagsArgs, RemoveTagArgs } from "./schemas.js";
+
+// Characters that end an open (#tag) tag in Bear's Markdown
+const TAG_END = "(?=$|[\\s.,;:!?)\\]])";
+
+export function cleanTagName(name: string): string {
+  return name.trim().replace(/^#/, "").replace(/#$/, "").trim();
+}
+
+// Tags containing spaces need Bear's closed form: #multi word tag#
+export function formatTag(name: string): string {
+  return /\s/.test(name) ? `#${name}#` : `#${name}`;
+}
+
+// Inline tags in a piece of Markdown: #tag, #nested/tag and #multi word tag#
+export function extractTags(text: string): string[] {
+  const tags: string[] = [];
+  const pattern = /(?:^|\s)#(?:([^\s#][^#\n]*?[^\s#])#|([^\s#]+))/g;
+
+  for (const [, closed, open] of text.matchAll(pattern)) {
+    const tag = closed ?? open.replace(/[.,;:!?)\]]+$/, "");
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Start and end offsets of `inline code` spans in a line
+function codeSpans(line: string): Array<[number, number]> {
+  return [...line.matchAll(/(`+)[^`]*?\1/g)].map((m) => [m.index!, m.index! + m[0].length]);
+}
+
+// Removes every occurrence of exactly this tag, leaving nested tags
+// (#tag/child) alone. Lines that held nothing but tags are dropped. Fenced
+// code blocks and inline code are left as they are.
+export function stripTag(text: string, name: string): { text: string; removed: number } {
+  const escaped = escapeRegExp(name);
+  const pattern = /\s/.test(name)
+    ? new RegExp(`(^|\\s)#${escaped}#`, "gi")
+    : new RegExp(`(^|\\s)#${escaped}(?:#|${TAG_END})`, "gi");
+
+  let removed = 0;
+  let fenced = false;
+  const lines: string[] = [];
+
+  for (const line of text.split("\n")) {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+    }
+    if (fenced || FENCE.test(line)) {
+      lines.push(line);
+      continue;
+    }
+
+    const spans = codeSpans(line);
+    let leading = false;
+    let stripped = line.replace(pattern, (match, _lead: string, offset: number) => {
+      if (spans.some(([start, end]) => offset < end && offset + match.length > start)) {
+        return match;
+      }
+      removed++;
+      leading ||= offset === 0;
+      // The space before the tag goes with it, so "a #tag b" becomes "a b" and "a #tag, b" becomes "a, b"
+      return "";
+    });
+    if (leading) {
+      stripped = stripped.replace(/^[ \t]+/, "");
+    }
+    if (stripped !== line && !stripped.trim()) {
+      continue;
+    }
+    lines.push(stripped === line ? line : stripped.replace(/[ \t]+$/, ""));
+  }
+
+  return { text: lines.join("\n"), removed };
+}
+
+// Appends the tags the note doesn't have yet on a new line
+export async function addTagsToNote(bear: BearClient, args: AddTagsArgs): Promise<ToolResult> {
+  const requested = toTagList(args.tags).map(cleanTagName).filter(Boolean);
+  if (requested.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "tags must name at least one tag");
+  }
+
+  const note = await openNote(bear, args);
+  const existing = new Set(note.tags.map((tag) => tag.toLowerCase()));
+  const added = [...new Set(requested)].filter((tag) => !existing.has(tag.toLowerCase()));
+
+  if (added.length > 0) {
+    await bear.run("add-text", {
+      id: note.identifier,
+      text: added.map(formatTag).join(" "),
+      mode: "append",
+      new_line: "yes",
+      open_note: "no",
+      show_window: args.show_window ? "yes" : "no",
+    });
+  }
+
+  const message = added.length
+    ? `Added ${added.map(formatTag).join(" ")} to "${note.title}"`
+    : `"${note.title}" already has all of those tags`;
+  return structuredResult(
+    { message, identifier: note.identifier, title: note.title, added, tags: [...note.tags, ...added] },
+    message
+  );
+}
+
+// Rewrites the note without the tag, using add-text's replace_all mode
+export async function removeTagFromNote(bear: BearClient, args: RemoveTagArgs): Promise<ToolResult> {
+  const tag = cleanTagName(args.tag);
+  const note = await openNote(bear, args);
+  const { text, removed } = stripTag(note.note ?? "", tag);
+
+  if (removed > 0) {
+    await bear.run("add-text", {
+      id: note.identifier,
+      text,
+      mode: "replace_all",
+      open_note: "no",
+      show_window: args.show_window ? "yes" : "no",
+    });
+  }
+
+  const message = removed
+    ? `Removed ${formatTag(tag)} from "${note.title}" (${removed} occurrence(s))`
+    : `"${note.title}" is not tagged ${formatTag(tag)}`;
+  return structuredResult(
+    {
+      message,
+      identifier: note.identifier,
+      title: note.title,
+      removed,
+      tags: note.tags.filter((t) => t.toLowerCase() !== tag.toLowerCase()),
+    },
+    message
+  );
+}
@@ -0,0 +1,175 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { basename, extname, join } from "path";
+import { BearClient } from "./bear-client.js";
+import { frontMatterBoolean, frontMatterList, frontMatterString, parseFrontMatter } from "./front-matter.js";
+import { normalizeNote, renderNote, toTagList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { CreateFromTemplateArgs } from "./schemas.js";
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Filled in by the server unless the caller passes a variable of the same name
+const BUILTIN_VARIABLES = ["date", "time", "week", "year", "title"];
+
+export function defaultTemplatesDir(): string {
+  return join(homedir(), ".config", "bear-mcp-server", "templates");
+}
+
+export interface NoteTemplate {
+  name: string;
+  description?: string;
+  // Title pattern, which may contain placeholders
+  title?: string;
+  tags: string[];
+  pin: boolean;
+  body: string;
+  // Placeholders the caller has to supply
+  variables: string[];
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// ISO 8601 week, e.g. 2024-W01 for 2024-01-03
+export function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${pad(week)}`;
+}
+
+function builtinValues(now: Date): Record<string, string> {
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    week: isoWeek(now),
+    year: String(now.getFullYear()),
+  };
+}
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+}
+
+// Reads templates from a directory of Markdown files. Files are re-read on
+// every call so edits show up without restarting the server.
+export class TemplateStore {
+  constructor(readonly dir: string = defaultTemplatesDir()) {}
+
+  static fromEnv(): TemplateStore {
+    return new TemplateStore(process.env.BEAR_TEMPLATES_DIR || undefined);
+  }
+
+  list(): NoteTemplate[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    return readdirSync(this.dir)
+      .filter((file) => extname(file).toLowerCase() === ".md")
+      .sort()
+      .map((file) => this.load(join(this.dir, file)));
+  }
+
+  get(name: string): NoteTemplate {
+    const template = this.list().find((t) => t.name.toLowerCase() === name.toLowerCase());
+    if (!template) {
+      const available = this.list().map((t) => t.name);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown template: ${name}. ${available.length ? `Available: ${available.join(", ")}` : `No templates found in ${this.dir}`}`
+      );
+    }
+    return template;
+  }
+
+  private load(path: string): NoteTemplate {
+    const { data, body } = parseFrontMatter(readFileSync(path, "utf8"));
+    const title = frontMatterString(data, "title");
+    const used = [...placeholders(body), ...placeholders(title ?? "")];
+
+    return {
+      name: basename(path, extname(path)),
+      description: frontMatterString(data, "description"),
+      title,
+      tags: frontMatterList(data, "tags"),
+      pin: frontMatterBoolean(data, "pin") ?? false,
+      body,
+      variables: [...new Set(used)].filter((name) => !BUILTIN_VARIABLES.includes(name)),
+    };
+  }
+}
+
+export interface RenderedTemplate {
+  title?: string;
+  text: string;
+  tags: string[];
+  pin: boolean;
+}
+
+export function renderTemplate(
+  template: NoteTemplate,
+  variables: Record<string, string> = {},
+  now: Date = new Date()
+): RenderedTemplate {
+  const missing = template.variables.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Template "${template.name}" needs values for: ${missing.join(", ")}`
+    );
+  }
+
+  const values = { ...builtinValues(now), ...variables };
+  const title = variables.title ?? (template.title ? substitute(template.title, values) : undefined);
+  const text = substitute(template.body, { ...values, title: title ?? "" });
+
+  return { title, text, tags: template.tags, pin: template.pin };
+}
+
+export async function createFromTemplate(
+  bear: BearClient,
+  store: TemplateStore,
+  args: CreateFromTemplateArgs
+): Promise<ToolResult> {
+  const template = store.get(args.template);
+  const rendered = renderTemplate(template, { ...args.variables, ...(args.title ? { title: args.title } : {}) });
+  const tags = [...new Set([...rendered.tags, ...toTagList(args.tags)])];
+
+  const params: Record<string, string> = { text: rendered.text, open_note: args.open_note ? "yes" : "no" };
+  if (rendered.title) params.title = rendered.title;
+  if (tags.length) params.tags = tags.join(",");
+  if (args.pin ?? rendered.pin) params.pin = "yes";
+  if (args.show_window !== undefined) params.show_window = args.show_window ? "yes" : "no";
+
+  const note = normalizeNote(await bear.executeWithCallback("create", params));
+  const message = `Created note from template "${template.name}"${rendered.title ? ` with title: ${rendered.title}` : ""}`;
+  return structuredResult({ message, template: template.name, note }, `${message}\n${renderNote(note)}`);
+}
+
+export function listTemplates(store: TemplateStore): ToolResult {
+  const templates = store.list().map(({ body, ...template }) => template);
+  const message = templates.length
+    ? `${templates.length} template(s) in ${store.dir}`
+    : `No templates found. Add Markdown files to ${store.dir}`;
+
+  const lines = templates.map((t) => {
+    const details = [
+      t.description,
+      t.variables.length ? `variables: ${t.variables.join(", ")}` : undefined,
+      t.tags.length ? t.tags.map((tag) => `#${tag}`).join(" ") : undefined,
+    ].filter(Boolean);
+    return `- ${t.name}${details.length ? ` · ${details.join(" · ")}` : ""}`;
+  });
+
+  return structuredResult({ message, templates }, lines.length ? `${message}\n\n${lines.join("\n")}` : message);
+}
@@ -0,0 +1,180 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BearClient } from "./bear-client.js";
+import { FENCE, openNote } from "./note-helpers.js";
+import { BearNote, normalizeNoteList } from "./notes.js";
+import { structuredResult, ToolResult } from "./registry.js";
+import { ListTodosArgs, ToggleTodoArgs } from "./schemas.js";
+import { extractTags } from "./tags.js";
+
+const DEFAULT_TODO_LIMIT = 200;
+
+// Checkboxes in bulleted and numbered lists: "- [ ] item", "1. [x] item"
+const TODO = /^(\s*)([-*+]|\d+[.)])\s+\[( |x|X)\]\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s/;
+const DATE = /\b(\d{4})[-/](\d{2})[-/](\d{2})\b/g;
+
+export interface TodoItem {
+  identifier: string;
+  note_title: string;
+  // 1-based line number in the note
+  line: number;
+  text: string;
+  done: boolean;
+  // 0 for top-level items, 1 for items nested one list level deeper, ...
+  level: number;
+  tags: string[];
+  dates: string[];
+}
+
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, "    ").length;
+}
+
+function extractDates(text: string): string[] {
+  return [...text.matchAll(DATE)].map(([, year, month, day]) => `${year}-${month}-${day}`);
+}
+
+// Finds every checkbox item in a note. Nesting follows the indentation of
+// all list items, so a todo under a plain bullet counts as nested too.
+export function parseTodos(note: Pick<BearNote, "identifier" | "title">, text: string): TodoItem[] {
+  const todos: TodoItem[] = [];
+  const indents: number[] = [];
+  let fenced = false;
+
+  text.split("\n").forEach((line, index) => {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+      return;
+    }
+    if (fenced) return;
+
+    const item = LIST_ITEM.exec(line);
+    if (!item) {
+      // Unindented text ends the list
+      if (line.trim() && !/^\s/.test(line)) indents.length = 0;
+      return;
+    }
+
+    const width = indentWidth(item[1]);
+    while (indents.length && indents[indents.length - 1] >= width) {
+      indents.pop();
+    }
+    const level = indents.length;
+    indents.push(width);
+
+    const todo = TODO.exec(line);
+    if (todo) {
+      todos.push({
+        identifier: note.identifier,
+        note_title: note.title,
+        line: index + 1,
+        text: todo[4].trim(),
+        done: todo[3] !== " ",
+        level,
+        tags: extractTags(todo[4]),
+        dates: extractDates(todo[4]),
+      });
+    }
+  });
+
+  return todos;
+}
+
+function renderTodos(todos: TodoItem[]): string {
+  return todos
+    .map((todo) => {
+      const details = [`${todo.note_title || "(untitled)"} [${todo.identifier}]:${todo.line}`];
+      if (todo.dates.length) details.push(todo.dates.join(", "));
+      return `${"  ".repeat(todo.level)}- [${todo.done ? "x" : " "}] ${todo.text} · ${details.join(" · ")}`;
+    })
+    .join("\n");
+}
+
+export async function listTodos(bear: BearClient, args: ListTodosArgs): Promise<ToolResult> {
+  let notes: BearNote[];
+  if (args.id) {
+    notes = [await openNote(bear, { id: args.id })];
+  } else {
+    const params: Record<string, string> = { show_window: "no" };
+    if (args.search) params.search = args.search;
+    // Bear's todo view only lists notes that still have open items
+    const listed = normalizeNoteList(await bear.executeWithCallback("todo", params));
+    notes = [];
+    for (const note of listed) {
+      notes.push(await openNote(bear, { id: note.identifier }));
+    }
+  }
+
+  const status = args.status ?? "open";
+  const tag = args.tag?.replace(/^#/, "").toLowerCase();
+  const todos = notes
+    .flatMap((note) => parseTodos(note, note.note ?? ""))
+    .filter((todo) => status === "all" || todo.done === (status === "done"))
+    .filter((todo) => !tag || todo.tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`)));
+
+  const limit = args.limit ?? DEFAULT_TODO_LIMIT;
+  const page = todos.slice(0, limit);
+  const message = `Found ${todos.length} ${status === "all" ? "" : `${status} `}todo(s) in ${notes.length} note(s)` +
+    (todos.length > page.length ? `; showing the first ${page.length}` : "");
+
+  return structuredResult(
+    { message, total: todos.length, count: page.length, todos: page },
+    page.length ? `${message}\n\n${renderTodos(page)}` : message
+  );
+}
+
+function findTodo(todos: TodoItem[], args: ToggleTodoArgs): TodoItem {
+  if (args.line !== undefined) {
+    const todo = todos.find((t) => t.line === args.line);
+    if (!todo) {
+      throw new McpError(ErrorCode.InvalidParams, `Line ${args.line} is not a todo item`);
+    }
+    // Guards against line numbers that went stale since the todos were listed
+    if (args.text && !todo.text.toLowerCase().includes(args.text.toLowerCase())) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Line ${args.line} is "${todo.text}", which doesn't contain "${args.text}"; list the todos again`
+      );
+    }
+    return todo;
+  }
+
+  const matches = todos.filter((t) => t.text.toLowerCase().includes(args.text!.toLowerCase()));
+  if (matches.length !== 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      matches.length
+        ? `"${args.text}" matches ${matches.length} todos; pass line to pick one:\n${renderTodos(matches)}`
+        : `No todo item contains "${args.text}"`
+    );
+  }
+  return matches[0];
+}
+
+export async function toggleTodo(bear: BearClient, args: ToggleTodoArgs): Promise<ToolResult> {
+  if (args.line === undefined && !args.text) {
+    throw new McpError(ErrorCode.InvalidParams, "Pass the todo's line number, its text, or both");
+  }
+
+  const note = await openNote(bear, args);
+  const todo = findTodo(parseTodos(note, note.note ?? ""), args);
+  const done = args.done ?? !todo.done;
+
+  if (done !== todo.done) {
+    const lines = (note.note ?? "").split("\n");
+    lines[todo.line - 1] = lines[todo.line - 1].replace(/\[( |x|X)\]/, done ? "[x]" : "[ ]");
+
+    await bear.run("add-text", {
+      id: note.identifier,
+      text: lines.join("\n"),
+      mode: "replace_all",
+      open_note: "no",
+      show_window: args.show_window ? "yes" : "no",
+    });
+  }
+
+  const message = done === todo.done
+    ? `"${todo.text}" is already ${done ? "checked" : "unchecked"}`
+    : `${done ? "Checked" : "Unchecked"} "${todo.text}" in "${note.title}"`;
+  return structuredResult({ message, todo: { ...todo, done } }, message);
+}
@@ -0,0 +1,106 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { URLLauncher } from "./launcher.js";
+
+// Bear actions that only return data through x-success when given the API token
+export const TOKEN_ACTIONS: ReadonlySet<string> = new Set(["search", "tags", "open-tag", "untagged", "todo", "today"]);
+
+// Actions Bear refuses outright without a token
+const TOKEN_REQUIRED_ACTIONS: ReadonlySet<string> = new Set(["tags"]);
+
+// A search without a term or tag lists the whole library, which features that
+// look across notes rely on; without a token Bear answers it with no notes
+function tokenRequired(action: string, params: Record<string, string | boolean>): boolean {
+  return TOKEN_REQUIRED_ACTIONS.has(action) || (action === "search" && !params.term && !params.tag);
+}
+
+export function defaultConfigPath(): string {
+  return join(homedir(), ".config", "bear-mcp-server", "config.json");
+}
+
+export function redactToken(url: string): string {
+  return url.replace(/([?&]token=)[^&"\s]*/g, "$1[REDACTED]");
+}
+
+export interface TokenProviderOptions {
+  token?: string;
+  configPath?: string;
+  keychainService?: string;
+}
+
+// Resolves the Bear API token from, in order: an explicit value, BEAR_TOKEN,
+// the config file's "token" field, and the keychain (when the launcher has one)
+export class TokenProvider {
+  private resolved?: Promise<string | undefined>;
+
+  constructor(private launcher: URLLauncher, private options: TokenProviderOptions = {}) {}
+
+  static fromEnv(launcher: URLLauncher): TokenProvider {
+    return new TokenProvider(launcher, {
+      token: process.env.BEAR_TOKEN || undefined,
+      configPath: process.env.BEAR_CONFIG || undefined,
+      keychainService: process.env.BEAR_KEYCHAIN_SERVICE || undefined,
+    });
+  }
+
+  resolve(): Promise<string | undefined> {
+    if (!this.resolved) {
+      this.resolved = this.lookup();
+      // Retry on the next call rather than caching a failed lookup
+      this.resolved.then(
+        (token) => { if (!token) this.resolved = undefined; },
+        () => { this.resolved = undefined; }
+      );
+    }
+    return this.resolved;
+  }
+
+  async inject(action: string, params: Record<string, string | boolean>): Promise<Record<string, string | boolean>> {
+    if (!TOKEN_ACTIONS.has(action)) {
+      return params;
+    }
+
+    const token = await this.resolve();
+    if (!token) {
+      if (tokenRequired(action, params)) {
+        const purpose = action === "search" ? "listing every note" : `"${action}"`;
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Bear API token is required for ${purpose}. Set BEAR_TOKEN in the server environment or add "token" to ${this.options.configPath ?? defaultConfigPath()}.`
+        );
+      }
+      return params;
+    }
+
+    return { ...params, token };
+  }
+
+  private async lookup(): Promise<string | undefined> {
+    if (this.options.token) {
+      return this.options.token;
+    }
+
+    const configPath = this.options.configPath ?? defaultConfigPath();
+    if (existsSync(configPath)) {
+      try {
+        const config = JSON.parse(readFileSync(configPath, "utf8"));
+        if (typeof config.token === "string" && config.token) {
+          return config.token;
+        }
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to read Bear config ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (this.options.keychainService && this.launcher.readKeychain) {
+      return this.launcher.readKeychain(this.options.keychainService);
+    }
+
+    return undefined;
+  }
+}
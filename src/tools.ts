@@ -0,0 +1,508 @@
+import { encodeFileParam } from "./attachments.js";
+import { ConfirmationStore, runBulkAction } from "./bulk.js";
+import { exportNotes } from "./export.js";
+import { importNotes } from "./import.js";
+import { listHistory, undoLast } from "./journal.js";
+import { findBrokenLinks, findOrphans, getBacklinks, getOutlinks, renameNote } from "./links.js";
+import { ListingArgs, paginateNotes } from "./listing.js";
+import { normalizeNote, normalizeNoteList, normalizeTags, renderNote, renderNoteList } from "./notes.js";
+import { defineTool, structuredResult, ToolDefinition, ToolResult } from "./registry.js";
+import {
+  addFileSchema,
+  addTagsSchema,
+  addTextSchema,
+  archiveNoteSchema,
+  changeFontSchema,
+  changeThemeSchema,
+  createFromTemplateSchema,
+  createNoteSchema,
+  deleteTagSchema,
+  editSectionSchema,
+  exportSchema,
+  findBrokenLinksSchema,
+  findOrphansSchema,
+  getLockedSchema,
+  getTagsSchema,
+  getTodaySchema,
+  getTodoSchema,
+  getUntaggedSchema,
+  grabUrlSchema,
+  importSchema,
+  listHistorySchema,
+  listTemplatesSchema,
+  listTodosSchema,
+  noteLinksSchema,
+  openNoteSchema,
+  openTagSchema,
+  pinNoteSchema,
+  removeTagSchema,
+  renameNoteSchema,
+  renameTagSchema,
+  searchSchema,
+  semanticSearchSchema,
+  tagHygieneSchema,
+  tagTreeSchema,
+  toggleTodoSchema,
+  trashNoteSchema,
+  undoLastSchema,
+  untrashNoteSchema,
+} from "./schemas.js";
+import { semanticSearch, sharedSearchIndex } from "./search-index.js";
+import { editSection } from "./sections.js";
+import { tagHygiene, tagTree } from "./tag-tree.js";
+import { addTagsToNote, removeTagFromNote } from "./tags.js";
+import { createFromTemplate, listTemplates, TemplateStore } from "./templates.js";
+import { listTodos, toggleTodo } from "./todos.js";
+
+const confirmations = new ConfirmationStore();
+const templates = TemplateStore.fromEnv();
+
+function noteResult(message: string, data: Record<string, any> | undefined): ToolResult {
+  const note = normalizeNote(data ?? {});
+  return structuredResult({ message, note }, `${message}\n${renderNote(note)}`);
+}
+
+function noteListResult(
+  tool: string,
+  args: ListingArgs,
+  filters: Record<string, unknown>,
+  message: string,
+  data: Record<string, any> | undefined
+): ToolResult {
+  const { total, notes, page, nextCursor } = paginateNotes(tool, normalizeNoteList(data), args, filters);
+  const more = nextCursor ? `\n\nShowing ${page.length} of ${total}. Pass cursor "${nextCursor}" for more.` : "";
+
+  return structuredResult(
+    { message, total, count: notes.length, notes, next_cursor: nextCursor },
+    `${message}\n\n${renderNoteList(page)}${more}`
+  );
+}
+
+export const builtinTools: ToolDefinition<any>[] = [
+  defineTool({
+    name: "bear_open_note",
+    description: "Open a note in Bear by ID or title",
+    inputSchema: openNoteSchema,
+    action: "open-note",
+    callback: true,
+    params: {
+      id: "string",
+      title: "string",
+      header: "string",
+      exclude_trashed: "flag",
+      new_window: "flag",
+      edit: "flag",
+      selected: "string",
+      pin: "flag",
+      float: "flag",
+      show_window: "flag",
+      open_note: "flag",
+      search: "string",
+    },
+    format: (args, noteData) => {
+      const note = normalizeNote(noteData ?? {});
+      return structuredResult(note, renderNote(note));
+    },
+  }),
+  defineTool({
+    name: "bear_create_note",
+    description: "Create a new note in Bear",
+    inputSchema: createNoteSchema,
+    action: "create",
+    callback: true,
+    params: {
+      title: "string",
+      text: "string",
+      tags: "list",
+      pin: "flag",
+      timestamp: "flag",
+      clipboard: "flag",
+      file: "string",
+      filename: "string",
+      open_note: "flag",
+      new_window: "flag",
+      float: "flag",
+      show_window: "flag",
+      edit: "flag",
+      type: "string",
+      url: "string",
+    },
+    prepare: encodeFileParam,
+    format: (args, noteData) => noteResult(
+      `Created new note in Bear${args.title ? ` with title: ${args.title}` : ""}`,
+      noteData
+    ),
+  }),
+  defineTool({
+    name: "bear_list_templates",
+    description: "List the note templates available to bear_create_from_template, with the variables each one needs",
+    inputSchema: listTemplatesSchema,
+    handler: async () => listTemplates(templates),
+  }),
+  defineTool({
+    name: "bear_create_from_template",
+    description: "Create a note from a template, filling in {{date}}, {{week}} and the template's own {{variables}}",
+    inputSchema: createFromTemplateSchema,
+    handler: (args, bear) => createFromTemplate(bear, templates, args),
+  }),
+  defineTool({
+    name: "bear_add_text",
+    description: "Add text to an existing note",
+    inputSchema: addTextSchema,
+    action: "add-text",
+    params: {
+      id: "string",
+      title: "string",
+      // An empty text with replace_all clears the note
+      text: { kind: "string", keepEmpty: true },
+      mode: "string",
+      new_line: "flag",
+      header: "string",
+      selected: "string",
+      clipboard: "flag",
+      exclude_trashed: "flag",
+      open_note: "flag",
+      new_window: "flag",
+      show_window: "flag",
+      edit: "flag",
+      timestamp: "flag",
+    },
+    format: (args) => `Added text to note in Bear${args.mode ? ` using mode: ${args.mode}` : ""}`,
+  }),
+  defineTool({
+    name: "bear_edit_section",
+    description: "Edit a note section addressed by its header path (e.g. Projects > Q3 > Risks): replace, insert after, move or delete it",
+    inputSchema: editSectionSchema,
+    handler: (args, bear) => editSection(bear, args),
+  }),
+  defineTool({
+    name: "bear_rename_note",
+    description: "Rename a note by rewriting its title line, and update [[wikilinks]] to it in every other note",
+    inputSchema: renameNoteSchema,
+    handler: (args, bear) => renameNote(bear, args),
+  }),
+  defineTool({
+    name: "bear_get_backlinks",
+    description: "List the notes that link to a note with [[Note Title]] or [[Note Title/Header]], with line numbers and context",
+    inputSchema: noteLinksSchema,
+    handler: (args, bear) => getBacklinks(bear, args),
+  }),
+  defineTool({
+    name: "bear_get_outlinks",
+    description: "List the [[wikilinks]] in a note and whether each target note and header exists",
+    inputSchema: noteLinksSchema,
+    handler: (args, bear) => getOutlinks(bear, args),
+  }),
+  defineTool({
+    name: "bear_find_broken_links",
+    description: "Find [[wikilinks]] across all notes that point to a missing note or header",
+    inputSchema: findBrokenLinksSchema,
+    handler: (args, bear) => findBrokenLinks(bear, args),
+  }),
+  defineTool({
+    name: "bear_find_orphans",
+    description: "Report notes that neither link to other notes nor are linked from them",
+    inputSchema: findOrphansSchema,
+    handler: (args, bear) => findOrphans(bear, args),
+  }),
+  defineTool({
+    name: "bear_add_file",
+    description: "Add a file to an existing note",
+    inputSchema: addFileSchema,
+    action: "add-file",
+    params: {
+      id: "string",
+      title: "string",
+      selected: "string",
+      file: "string",
+      header: "string",
+      filename: "string",
+      mode: "string",
+      open_note: "flag",
+      new_window: "flag",
+      show_window: "flag",
+      edit: "flag",
+    },
+    prepare: encodeFileParam,
+    format: (args) => `Added file to note in Bear${args.filename ? ` with filename: ${args.filename}` : ""}`,
+  }),
+  defineTool({
+    name: "bear_search",
+    description: "Search for notes in Bear",
+    inputSchema: searchSchema,
+    action: "search",
+    callback: true,
+    params: {
+      term: "string",
+      tag: "string",
+      show_window: "flag",
+    },
+    format: (args, searchData) => noteListResult(
+      "bear_search",
+      args,
+      { term: args.term, tag: args.tag },
+      `Searched Bear for: ${args.term || "all notes"}${args.tag ? ` in tag: ${args.tag}` : ""}`,
+      searchData
+    ),
+  }),
+  defineTool({
+    name: "bear_semantic_search",
+    description: "Search notes with a local ranked index (BM25, plus embeddings when configured); returns passages with note IDs and headers for bear_open_note",
+    inputSchema: semanticSearchSchema,
+    handler: (args, bear) => semanticSearch(bear, sharedSearchIndex(), args),
+  }),
+  defineTool({
+    name: "bear_get_tags",
+    description: "Get all tags from Bear",
+    inputSchema: getTagsSchema,
+    action: "tags",
+    callback: true,
+    format: (args, tagsData) => {
+      const tags = normalizeTags(tagsData);
+      return structuredResult(
+        { message: "Retrieved all tags from Bear", tags },
+        tags.length ? tags.map((t) => `#${t.name}`).join("\n") : "No tags found."
+      );
+    },
+  }),
+  defineTool({
+    name: "bear_open_tag",
+    description: "Open notes with specific tag(s)",
+    inputSchema: openTagSchema,
+    action: "open-tag",
+    callback: true,
+    params: {
+      name: "list",
+      show_window: "flag",
+    },
+    format: (args, tagData) => noteListResult(
+      "bear_open_tag",
+      args,
+      { name: args.name },
+      `Opened notes with tag: ${args.name}`,
+      tagData
+    ),
+  }),
+  defineTool({
+    name: "bear_trash_note",
+    description: "Move notes to trash. The first call previews the affected notes and returns a confirmation token; call again with confirm set to that token to trash them",
+    inputSchema: trashNoteSchema,
+    handler: (args, bear) => runBulkAction("trash", args, bear, confirmations),
+  }),
+  defineTool({
+    name: "bear_archive_note",
+    description: "Archive notes. The first call previews the affected notes and returns a confirmation token; call again with confirm set to that token to archive them",
+    inputSchema: archiveNoteSchema,
+    handler: (args, bear) => runBulkAction("archive", args, bear, confirmations),
+  }),
+  defineTool({
+    name: "bear_untrash_note",
+    description: "Restore a note from the trash",
+    inputSchema: untrashNoteSchema,
+    action: "untrash",
+    params: {
+      id: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Restored note ${args.id} from the trash`,
+  }),
+  defineTool({
+    name: "bear_pin_note",
+    description: "Pin a note without opening it",
+    inputSchema: pinNoteSchema,
+    handler: async (args, bear) => {
+      // Waiting for the callback surfaces a missing note as an error
+      const data = await bear.executeWithCallback("open-note", {
+        ...(args.id ? { id: args.id } : { title: args.title! }),
+        pin: "yes",
+        open_note: "no",
+        show_window: args.show_window ? "yes" : "no",
+      });
+      return `Pinned note "${data.title ?? args.title ?? ""}" [${data.identifier ?? args.id ?? ""}]`;
+    },
+  }),
+  defineTool({
+    name: "bear_get_untagged",
+    description: "Get untagged notes",
+    inputSchema: getUntaggedSchema,
+    action: "untagged",
+    callback: true,
+    params: {
+      search: "string",
+      show_window: "flag",
+    },
+    format: (args, untaggedData) => noteListResult(
+      "bear_get_untagged",
+      args,
+      { search: args.search },
+      `Retrieved untagged notes${args.search ? ` matching: ${args.search}` : ""}`,
+      untaggedData
+    ),
+  }),
+  defineTool({
+    name: "bear_get_todo",
+    description: "Get todo notes",
+    inputSchema: getTodoSchema,
+    action: "todo",
+    callback: true,
+    params: {
+      search: "string",
+      show_window: "flag",
+    },
+    format: (args, todoData) => noteListResult(
+      "bear_get_todo",
+      args,
+      { search: args.search },
+      `Retrieved todo notes${args.search ? ` matching: ${args.search}` : ""}`,
+      todoData
+    ),
+  }),
+  defineTool({
+    name: "bear_list_todos",
+    description: "List individual todo items from Bear notes as a flat task list with note ID, line, done state, nesting level, tags and dates",
+    inputSchema: listTodosSchema,
+    handler: (args, bear) => listTodos(bear, args),
+  }),
+  defineTool({
+    name: "bear_toggle_todo",
+    description: "Check or uncheck a todo item in a note, addressed by line number and/or text",
+    inputSchema: toggleTodoSchema,
+    handler: (args, bear) => toggleTodo(bear, args),
+  }),
+  defineTool({
+    name: "bear_get_today",
+    description: "Get today's notes",
+    inputSchema: getTodaySchema,
+    action: "today",
+    callback: true,
+    params: {
+      search: "string",
+      show_window: "flag",
+    },
+    format: (args, todayData) => noteListResult(
+      "bear_get_today",
+      args,
+      { search: args.search },
+      `Retrieved today's notes${args.search ? ` matching: ${args.search}` : ""}`,
+      todayData
+    ),
+  }),
+  defineTool({
+    name: "bear_get_locked",
+    description: "Get locked (encrypted) notes",
+    inputSchema: getLockedSchema,
+    action: "locked",
+    params: {
+      search: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Retrieved locked notes${args.search ? ` matching: ${args.search}` : ""}`,
+  }),
+  defineTool({
+    name: "bear_grab_url",
+    description: "Create a note from web page content",
+    inputSchema: grabUrlSchema,
+    action: "grab-url",
+    callback: true,
+    params: {
+      url: "string",
+      tags: "list",
+      pin: "flag",
+      wait: "flag",
+    },
+    format: (args, grabData) => noteResult(`Created note from URL: ${args.url}`, grabData),
+  }),
+  defineTool({
+    name: "bear_rename_tag",
+    description: "Rename an existing tag",
+    inputSchema: renameTagSchema,
+    action: "rename-tag",
+    params: {
+      name: "string",
+      new_name: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Renamed tag from "${args.name}" to "${args.new_name}"`,
+  }),
+  defineTool({
+    name: "bear_delete_tag",
+    description: "Delete an existing tag",
+    inputSchema: deleteTagSchema,
+    action: "delete-tag",
+    params: {
+      name: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Deleted tag: ${args.name}`,
+  }),
+  defineTool({
+    name: "bear_tag_tree",
+    description: "Show the nested tag hierarchy with note counts and the date each tag was last used",
+    inputSchema: tagTreeSchema,
+    handler: (args, bear) => tagTree(bear, args),
+  }),
+  defineTool({
+    name: "bear_tag_hygiene",
+    description: "Report near-duplicate tags (case, plural, typos) with suggested merges for bear_rename_tag, plus empty and oversize tags",
+    inputSchema: tagHygieneSchema,
+    handler: (args, bear) => tagHygiene(bear, args),
+  }),
+  defineTool({
+    name: "bear_add_tags",
+    description: "Add tags to an existing note, skipping tags it already has",
+    inputSchema: addTagsSchema,
+    handler: (args, bear) => addTagsToNote(bear, args),
+  }),
+  defineTool({
+    name: "bear_remove_tag",
+    description: "Remove a tag from a single note, leaving the rest of its text unchanged",
+    inputSchema: removeTagSchema,
+    handler: (args, bear) => removeTagFromNote(bear, args),
+  }),
+  defineTool({
+    name: "bear_change_theme",
+    description: "Change Bear's theme",
+    inputSchema: changeThemeSchema,
+    action: "change-theme",
+    params: {
+      theme: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Changed Bear theme to ${args.theme}`,
+  }),
+  defineTool({
+    name: "bear_change_font",
+    description: "Change Bear's editor font",
+    inputSchema: changeFontSchema,
+    action: "change-font",
+    params: {
+      font: "string",
+      show_window: "flag",
+    },
+    format: (args) => `Changed Bear font to ${args.font}`,
+  }),
+  defineTool({
+    name: "bear_export",
+    description: "Export notes by tag, search or ID list as Markdown files with YAML front matter and relative links, optionally with a JSON archive and index",
+    inputSchema: exportSchema,
+    handler: (args, bear) => exportNotes(bear, args),
+  }),
+  defineTool({
+    name: "bear_import",
+    description: "Import a local directory of Markdown files (including Obsidian vaults and Notion exports) as Bear notes, with tags from front matter, converted links and attached images",
+    inputSchema: importSchema,
+    handler: (args, bear) => importNotes(bear, args),
+  }),
+  defineTool({
+    name: "bear_list_history",
+    description: "List recent note and tag changes recorded in the undo journal, newest first",
+    inputSchema: listHistorySchema,
+    handler: (args, bear) => listHistory(bear, args),
+  }),
+  defineTool({
+    name: "bear_undo_last",
+    description: "Undo the most recent change(s) from the undo journal: restores previous note content, renames tags back and untrashes notes",
+    inputSchema: undoLastSchema,
+    handler: (args, bear) => undoLast(bear, args),
+  }),
+];
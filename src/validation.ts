@@ -0,0 +1,170 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export interface StringProperty {
+  type: "string";
+  description?: string;
+  enum?: readonly string[];
+}
+
+export interface BooleanProperty {
+  type: "boolean";
+  description?: string;
+}
+
+export interface NumberProperty {
+  type: "number" | "integer";
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ArrayProperty {
+  type: "array";
+  description?: string;
+  items: StringProperty | NumberProperty;
+}
+
+// A free-form object whose values are all strings, e.g. template variables
+export interface MapProperty {
+  type: "object";
+  description?: string;
+  additionalProperties: StringProperty;
+}
+
+export type PropertySchema = StringProperty | BooleanProperty | NumberProperty | ArrayProperty | MapProperty;
+
+// The subset of JSON Schema the tool input schemas use. `anyOf` only carries
+// `required` lists, which is how "id or title" style requirements are written.
+export interface ObjectSchema {
+  type: "object";
+  properties: Readonly<Record<string, PropertySchema>>;
+  required?: readonly string[];
+  anyOf?: readonly { required: readonly string[] }[];
+  additionalProperties?: boolean;
+}
+
+type PropertyType<P> =
+  P extends { enum: readonly (infer E)[] } ? E :
+  P extends { type: "string" } ? string :
+  P extends { type: "boolean" } ? boolean :
+  P extends { type: "number" | "integer" } ? number :
+  P extends { type: "array"; items: infer I } ? PropertyType<I>[] :
+  P extends { type: "object"; additionalProperties: infer V } ? Record<string, PropertyType<V>> :
+  never;
+
+type RequiredKeys<S extends ObjectSchema> =
+  S["required"] extends readonly (infer K)[] ? Extract<K, keyof S["properties"]> : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// The TypeScript type of the arguments an object schema accepts
+export type ArgsOf<S extends ObjectSchema> = Simplify<
+  { -readonly [K in RequiredKeys<S>]: PropertyType<S["properties"][K]> } &
+  { -readonly [K in Exclude<keyof S["properties"], RequiredKeys<S>>]?: PropertyType<S["properties"][K]> }
+>;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// A required argument may be empty, e.g. `text: ""` to clear a note
+function isGiven(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+// An alternative such as "id or title" needs an actual value
+function isPresent(value: unknown): boolean {
+  return isGiven(value) && value !== "";
+}
+
+function checkProperty(field: string, schema: PropertySchema, value: unknown, errors: FieldError[]) {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        errors.push({ field, message: "must be a string" });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ field, message: `must be one of: ${schema.enum.join(", ")}` });
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push({ field, message: "must be a boolean" });
+      }
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        errors.push({ field, message: "must be a number" });
+      } else if (schema.type === "integer" && !Number.isInteger(value)) {
+        errors.push({ field, message: "must be an integer" });
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ field, message: `must be at least ${schema.minimum}` });
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ field, message: `must be at most ${schema.maximum}` });
+      }
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push({ field, message: "must be an array" });
+      } else {
+        value.forEach((item, index) => checkProperty(`${field}[${index}]`, schema.items, item, errors));
+      }
+      break;
+    case "object":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push({ field, message: "must be an object" });
+      } else {
+        for (const [key, item] of Object.entries(value)) {
+          checkProperty(`${field}.${key}`, schema.additionalProperties, item, errors);
+        }
+      }
+      break;
+  }
+}
+
+export function validateArgs<S extends ObjectSchema>(tool: string, schema: S, args: unknown): ArgsOf<S> {
+  const errors: FieldError[] = [];
+  const input = args ?? {};
+
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${tool}: expected an object`);
+  }
+
+  const values = input as Record<string, unknown>;
+
+  for (const field of schema.required ?? []) {
+    if (!isGiven(values[field])) {
+      errors.push({ field, message: "is required" });
+    }
+  }
+
+  const alternatives = schema.anyOf ?? [];
+  if (alternatives.length > 0 && !alternatives.some((alt) => alt.required.every((field) => isPresent(values[field])))) {
+    const options = alternatives.map((alt) => alt.required.join(" + "));
+    errors.push({ field: options.join("/"), message: `one of ${options.join(", ")} is required` });
+  }
+
+  for (const [field, value] of Object.entries(values)) {
+    const property = schema.properties[field];
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        errors.push({ field, message: "is not a recognized argument" });
+      }
+      continue;
+    }
+    if (value !== undefined && value !== null) {
+      checkProperty(field, property, value, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${tool}:\n${errors.map((e) => `- ${e.field}: ${e.message}`).join("\n")}`,
+      { errors }
+    );
+  }
+
+  return values as ArgsOf<S>;
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { AttachmentPolicy, resolveAttachment } from "../src/attachments.js";
+import { BearClient } from "../src/bear-client.js";
+import { DEFAULT_MAX_ATTACHMENT_URL_LENGTH, validateBearURL } from "../src/bear-url.js";
+import { FakeLauncher } from "../src/launcher.js";
+import { tempDir } from "./helpers.js";
+
+// Only base64 characters in the name, so paths inside it are ambiguous with base64
+const allowed = mkdtempSync(join(tmpdir(), "bearattachments"));
+after(() => rmSync(allowed, { recursive: true, force: true }));
+const outside = tempDir();
+
+writeFileSync(join(allowed, "photo"), "inside");
+writeFileSync(join(allowed, "notes.txt"), "hello");
+writeFileSync(join(outside, "secret.txt"), "secret");
+symlinkSync(join(outside, "secret.txt"), join(allowed, "link.txt"));
+mkdirSync(join(allowed, "sub"));
+symlinkSync(outside, join(allowed, "sub", "escape"));
+
+const policy = new AttachmentPolicy({ allowedDirs: [allowed] });
+
+describe("resolveAttachment", () => {
+  it("reads local files inside the allowed directories", () => {
+    const file = resolveAttachment(join(allowed, "notes.txt"), undefined, policy);
+    assert.deepEqual(file, { data: "aGVsbG8=", filename: "notes.txt", mimeType: "text/plain", size: 5, source: "path" });
+    assert.equal(resolveAttachment(`file://${allowed}/notes.txt`, "renamed.md", policy).filename, "renamed.md");
+  });
+
+  const ambiguous = join(allowed, "photo");
+  it("reads base64-shaped absolute paths as paths only inside an allowed directory", {
+    skip: !/^[A-Za-z0-9+/]+$/.test(ambiguous) && "the temp directory's path isn't base64-shaped",
+  }, () => {
+    assert.equal(resolveAttachment(ambiguous, undefined, policy).source, "path");
+    assert.equal(resolveAttachment(ambiguous, undefined, new AttachmentPolicy({ allowedDirs: [outside] })).source, "base64");
+  });
+
+  it("reads other base64 as data, even when it starts with a slash", () => {
+    const jpeg = resolveAttachment("/9j/4AAQSkZJRg==", undefined, policy);
+    assert.equal(jpeg.source, "base64");
+    assert.equal(jpeg.filename, "attachment.jpg");
+  });
+
+  it("refuses paths outside the allowed directories, without looking at them", () => {
+    assert.throws(() => resolveAttachment(join(outside, "secret.txt"), undefined, policy), /outside the allowed/);
+    assert.throws(() => resolveAttachment(join(outside, "missing.txt"), undefined, policy), /outside the allowed/);
+    assert.throws(() => resolveAttachment("../secret.txt", undefined, policy), /outside the allowed/);
+    assert.throws(() => resolveAttachment(join(allowed, "notes.txt"), undefined, new AttachmentPolicy()), /disabled/);
+  });
+
+  it("refuses symlinks that lead out of an allowed directory", () => {
+    assert.throws(() => resolveAttachment(join(allowed, "link.txt"), undefined, policy), /outside the allowed/);
+    assert.throws(() => resolveAttachment(join(allowed, "sub", "escape", "secret.txt"), undefined, policy), /outside the allowed/);
+  });
+
+  it("decodes data URIs, and refuses malformed ones", () => {
+    const text = resolveAttachment("data:text/plain,hello%20world", undefined, policy);
+    assert.equal(Buffer.from(text.data, "base64").toString(), "hello world");
+    assert.deepEqual([text.filename, text.mimeType, text.source], ["attachment.txt", "text/plain", "data-uri"]);
+
+    assert.throws(() => resolveAttachment("data:text/plain,%zz", undefined, policy), /malformed percent-encoding/);
+    assert.throws(() => resolveAttachment("data:image/png;base64,not base64!", undefined, policy), /base64 data, or a data: URI/);
+  });
+
+  it("names base64 data from its signature, accepting base64url and line breaks", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xfb, 0xff]);
+    const wrapped = png.toString("base64url").replace(/(.{4})/, "$1\n");
+    const file = resolveAttachment(wrapped, undefined, policy);
+    assert.equal(file.filename, "attachment.png");
+    assert.equal(file.data, png.toString("base64"));
+  });
+
+  it("enforces the size limit before reading or decoding", () => {
+    const small = new AttachmentPolicy({ allowedDirs: [allowed], maxBytes: 4 });
+    assert.equal(resolveAttachment(Buffer.from("1234").toString("base64"), undefined, small).size, 4);
+    assert.throws(() => resolveAttachment(Buffer.from("12345").toString("base64"), undefined, small), /5 bytes, over the 4 byte/);
+    assert.throws(() => resolveAttachment(join(allowed, "notes.txt"), undefined, small), /over the 4 byte attachment limit/);
+    assert.throws(() => resolveAttachment("data:,12345", undefined, small), /over the 4 byte/);
+  });
+
+  it("keeps files at the default limit within the default attachment URL length", async () => {
+    const file = resolveAttachment(randomBytes(new AttachmentPolicy().maxBytes).toString("base64"), "a.bin", policy);
+    const bear = new BearClient({ launcher: new FakeLauncher(), journal: null });
+    try {
+      const url = bear.buildBearURL("add-file", { id: "NOTE-ID", file: file.data, filename: file.filename, mode: "append" });
+      assert.doesNotThrow(() => validateBearURL(url, DEFAULT_MAX_ATTACHMENT_URL_LENGTH));
+    } finally {
+      await bear.close();
+    }
+  });
+});
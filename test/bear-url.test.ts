@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { BearClient } from "../src/bear-client.js";
+import { DEFAULT_MAX_ATTACHMENT_URL_LENGTH, DEFAULT_MAX_URL_LENGTH, validateBearURL } from "../src/bear-url.js";
+import { CommandLauncher, FakeLauncher, MAX_ARGUMENT_LENGTH } from "../src/launcher.js";
+
+// Pieces that break shells, query strings or naive encoders
+const HOSTILE = [
+  "\"", "'", "`", "$(", ")", "${HOME}", ";", "|", "&", "&&", "=", "?", "#", "%", "%25", "%zz", "+", "/", "\\",
+  "\n", "\r\n", "\t", " ", "\u0000", "é", "ß", "\u200b", "🐻", "𝄞", "a", "Z", "9", "-", "_", "~",
+];
+
+// Seeded so a failure can be replayed
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function fuzzValues(seed: number, count: number, maxPieces = 24): string[] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => {
+    let value = "";
+    const pieces = Math.floor(next() * maxPieces);
+    for (let i = 0; i < pieces; i++) value += HOSTILE[Math.floor(next() * HOSTILE.length)];
+    return value;
+  });
+}
+
+const bear = new BearClient({ launcher: new FakeLauncher(() => ({ type: "none" })), journal: null });
+after(() => bear.close());
+
+describe("buildBearURL", () => {
+  it("round-trips any parameter key and value", () => {
+    for (const value of fuzzValues(1, 2000)) {
+      const url = bear.buildBearURL("add-text", { id: "NOTE", text: value, [`k${value}`]: value });
+      const params = new URL(url).searchParams;
+
+      assert.equal(params.get("text"), value);
+      assert.equal(params.get(`k${value}`), value);
+      assert.equal(params.get("id"), "NOTE");
+      assert.equal(new URL(url).pathname, "/add-text");
+    }
+  });
+
+  it("only produces URLs that pass validation", () => {
+    for (const value of fuzzValues(2, 2000)) {
+      const url = bear.buildBearURL("create", { title: value, text: value, tags: value });
+      assert.doesNotThrow(() => validateBearURL(url), JSON.stringify(value));
+      assert.doesNotMatch(url, /[\s"`$;|\\<>\u0000]/);
+    }
+  });
+});
+
+describe("validateBearURL", () => {
+  it("refuses queries with unencoded characters", () => {
+    for (const value of fuzzValues(3, 2000)) {
+      const url = `bear://x-callback-url/create?text=${value}`;
+      const encodedOnly = /^[A-Za-z0-9\-._~%!*'()&=+]*$/.test(value);
+      if (encodedOnly) {
+        assert.doesNotThrow(() => validateBearURL(url));
+      } else {
+        assert.throws(() => validateBearURL(url), /unencoded characters/, JSON.stringify(value));
+      }
+    }
+  });
+
+  it("refuses unknown actions and anything that is not a Bear URL", () => {
+    for (const value of fuzzValues(4, 500)) {
+      assert.throws(() => validateBearURL(`bear://x-callback-url/create${value}/x`));
+      assert.throws(() => validateBearURL(`${value}open -a Calculator`));
+    }
+    assert.throws(() => validateBearURL("bear://x-callback-url/create/../../etc"), /unknown Bear action/);
+    assert.throws(() => validateBearURL("bear://x-callback-url/evil?text=a"), /unknown Bear action/);
+    assert.throws(() => validateBearURL("file:///etc/passwd"), /not a Bear x-callback URL/);
+  });
+
+  it("refuses URLs over the length limit", () => {
+    const text = "a".repeat(DEFAULT_MAX_URL_LENGTH);
+    assert.throws(() => validateBearURL(bear.buildBearURL("add-text", { id: "NOTE", text })), /character limit/);
+    assert.doesNotThrow(() => validateBearURL(bear.buildBearURL("add-text", { id: "NOTE", text }), DEFAULT_MAX_URL_LENGTH * 2));
+  });
+});
+
+describe("BearClient URL limits", () => {
+  it("lets attachments use the larger limit", async () => {
+    const launcher = new FakeLauncher(() => ({ type: "none" }));
+    const client = new BearClient({ launcher, journal: null, maxURLLength: 1000, maxAttachmentURLLength: 10000 });
+    try {
+      await client.run("add-file", { id: "NOTE", file: "A".repeat(5000), filename: "a.png" });
+      assert.equal(launcher.launched.length, 1);
+      await assert.rejects(client.run("open-tag", { name: "a".repeat(5000) }), /character limit/);
+      await assert.rejects(client.run("add-file", { id: "NOTE", file: "A".repeat(20000), filename: "a.png" }), /character limit/);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("CommandLauncher", { skip: process.platform === "win32" }, () => {
+  const dir = mkdtempSync(join(tmpdir(), "bear-launcher-"));
+  const script = join(dir, "record");
+  const output = join(dir, "argv");
+  const canary = join(dir, "canary");
+  // Records the arguments it was started with, one per NUL-terminated entry
+  writeFileSync(script, `#!/bin/sh\nprintf '%s\\0' "$@" > '${output}'\n`);
+  chmodSync(script, 0o755);
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const launcher = new CommandLauncher("record", script);
+
+  it("passes the URL as one argument without a shell", async () => {
+    const values = [
+      ...fuzzValues(5, 60).map((value) => value.replace(/\u0000/g, "")),
+      `"; touch '${canary}'; echo "`,
+      `$(touch '${canary}')`,
+      `\`touch '${canary}'\``,
+      `x & touch '${canary}'`,
+      `x\ntouch '${canary}'`,
+    ];
+
+    for (const value of values) {
+      const url = `bear://x-callback-url/create?text=${value}`;
+      await launcher.launch(url);
+      assert.equal(readFileSync(output, "utf8"), `${url}\u0000`, JSON.stringify(value));
+    }
+    assert.equal(existsSync(canary), false);
+  });
+
+  it("passes built URLs through unchanged", async () => {
+    for (const value of fuzzValues(6, 40)) {
+      const url = bear.buildBearURL("create", { title: value, text: value });
+      await launcher.launch(url);
+      assert.equal(readFileSync(output, "utf8"), `${url}\u0000`);
+    }
+  });
+
+  it("refuses NUL bytes instead of truncating at them", async () => {
+    await assert.rejects(launcher.launch("bear://x-callback-url/create?text=a\u0000b"));
+  });
+  it("passes a URL at the argument limit intact and refuses a longer one", async () => {
+    const prefix = "bear://x-callback-url/add-file?id=NOTE&filename=a.png&file=";
+    const url = prefix + "A".repeat(MAX_ARGUMENT_LENGTH - prefix.length);
+    await launcher.launch(url);
+    assert.equal(readFileSync(output, "utf8"), `${url}\u0000`);
+
+    await assert.rejects(launcher.launch(`${url}A`), /more than record can be passed/);
+  });
+
+  it("caps BearClient's attachment URL limit at what it can pass", async () => {
+    const client = new BearClient({ launcher, journal: null, maxAttachmentURLLength: 8 * 1024 * 1024 });
+    try {
+      assert.equal(client.maxAttachmentURLLength, MAX_ARGUMENT_LENGTH);
+      assert.ok(DEFAULT_MAX_ATTACHMENT_URL_LENGTH <= 1024 * 1024 - 64 * 1024);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfirmationStore, runBulkAction } from "../src/bulk.js";
+import { cannedReplies, fakeBear, structured } from "./helpers.js";
+
+const NOTES = [
+  { title: "Old A", identifier: "ID-A" },
+  { title: "Old B", identifier: "ID-B" },
+];
+
+function bulkBear(failing: string[] = []) {
+  const replies = cannedReplies({ search: { notes: NOTES } });
+  return fakeBear((action, params) => {
+    if (failing.includes(params.id)) throw new Error(`cannot open ${params.id}`);
+    return replies(action, params);
+  });
+}
+
+async function preview(bear: ReturnType<typeof bulkBear>["bear"], store: ConfirmationStore, search = "old") {
+  return structured(await runBulkAction("trash", { search }, bear, store)).confirm as string;
+}
+
+describe("runBulkAction", () => {
+  it("previews without changing anything, then trashes the previewed notes", async () => {
+    const { bear, launcher } = bulkBear();
+    const store = new ConfirmationStore();
+    const token = await preview(bear, store);
+
+    assert.deepEqual(launcher.launched.map((l) => l.action), ["search"]);
+    launcher.reset();
+
+    const result = await runBulkAction("trash", { search: "old", confirm: token }, bear, store);
+    assert.equal(result.isError, false);
+    assert.deepEqual(launcher.launched.map((l) => [l.action, l.params.id]), [["trash", "ID-A"], ["trash", "ID-B"]]);
+    assert.deepEqual(structured(result).trashed.map((n: any) => n.identifier), ["ID-A", "ID-B"]);
+  });
+
+  it("rejects a token issued for a different id/search", async () => {
+    const { bear, launcher } = bulkBear();
+    const store = new ConfirmationStore();
+    const token = await preview(bear, store);
+    launcher.reset();
+
+    await assert.rejects(runBulkAction("trash", { search: "new", confirm: token }, bear, store), /different id\/search/);
+    await assert.rejects(runBulkAction("trash", { id: "ID-A", confirm: token }, bear, store), /different id\/search/);
+    await assert.rejects(runBulkAction("archive", { search: "old", confirm: token }, bear, store), /Unknown or expired/);
+    assert.equal(launcher.launched.length, 0);
+  });
+
+  it("rejects a reused token", async () => {
+    const { bear } = bulkBear();
+    const store = new ConfirmationStore();
+    const token = await preview(bear, store);
+
+    await runBulkAction("trash", { search: "old", confirm: token }, bear, store);
+    await assert.rejects(runBulkAction("trash", { search: "old", confirm: token }, bear, store), /Unknown or expired/);
+  });
+
+  it("rejects an expired token", async (t) => {
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    const { bear, launcher } = bulkBear();
+    const store = new ConfirmationStore();
+    const token = await preview(bear, store);
+    launcher.reset();
+
+    t.mock.timers.tick(10 * 60 * 1000);
+    await assert.rejects(runBulkAction("trash", { search: "old", confirm: token }, bear, store), /Unknown or expired/);
+    assert.equal(launcher.launched.length, 0);
+  });
+
+  it("marks a partly failed batch as an error", async () => {
+    const { bear } = bulkBear(["ID-B"]);
+    const store = new ConfirmationStore();
+    const token = await preview(bear, store);
+
+    const result = await runBulkAction("trash", { search: "old", confirm: token }, bear, store);
+    const data = structured(result);
+    assert.equal(result.isError, true);
+    assert.deepEqual(data.trashed.map((n: any) => n.identifier), ["ID-A"]);
+    assert.deepEqual(data.failed.map((n: any) => n.identifier), ["ID-B"]);
+    assert.match(data.failed[0].error, /cannot open ID-B/);
+    assert.equal(data.message, "1 note(s) moved to trash, 1 failed");
+  });
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { get } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, it } from "node:test";
+import { CallbackServer } from "../src/callback-server.js";
+import { NotFoundError } from "../src/errors.js";
+
+const ENV = ["BEAR_CALLBACK_PORT", "BEAR_CALLBACK_TIMEOUT", "BEAR_CALLBACK_TIMEOUTS"];
+
+function call(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    get(url, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    }).on("error", reject);
+  });
+}
+
+describe("CallbackServer", () => {
+  afterEach(() => ENV.forEach((name) => delete process.env[name]));
+
+  it("reads its settings from the environment", () => {
+    process.env.BEAR_CALLBACK_TIMEOUT = "2500";
+    process.env.BEAR_CALLBACK_TIMEOUTS = '{"grab-url": 30000}';
+    const server = CallbackServer.fromEnv();
+    assert.equal(server.timeoutFor("search"), 2500);
+    assert.equal(server.timeoutFor("grab-url"), 30000);
+  });
+
+  it("refuses settings that aren't whole numbers", () => {
+    for (const [name, value] of [
+      ["BEAR_CALLBACK_TIMEOUT", "10s"],
+      ["BEAR_CALLBACK_TIMEOUT", "0"],
+      ["BEAR_CALLBACK_PORT", "http"],
+      ["BEAR_CALLBACK_PORT", "70000"],
+      ["BEAR_CALLBACK_TIMEOUTS", "{grab-url: 1}"],
+      ["BEAR_CALLBACK_TIMEOUTS", '{"grab-url": "30s"}'],
+      ["BEAR_CALLBACK_TIMEOUTS", "[1]"],
+    ]) {
+      process.env[name] = value;
+      assert.throws(() => CallbackServer.fromEnv(), new RegExp(name), `${name}=${value}`);
+      delete process.env[name];
+    }
+  });
+
+  it("listens on the loopback interface only", async () => {
+    const server = new CallbackServer();
+    try {
+      const pending = await server.register("search");
+      pending.dispose();
+      const address = (server as any).server.address() as AddressInfo;
+      assert.match(address.address, /^(127\.0\.0\.1|::1)$/);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("routes success and error callbacks to the waiting request", async () => {
+    const server = new CallbackServer();
+    try {
+      const ok = await server.register("open-note");
+      const failed = await server.register("open-note");
+      failed.result.catch(() => {});
+
+      assert.equal(await call(`${ok.urls["x-success"]}?title=Hi&tags=${encodeURIComponent('["a"]')}&pin=yes`), 200);
+      assert.deepEqual(await ok.result, { title: "Hi", tags: ["a"], pin: true });
+
+      await call(`${failed.urls["x-error"]}?errorCode=1&errorMessage=Note%20not%20found`);
+      await assert.rejects(failed.result, NotFoundError);
+
+      // A callback can only be answered once
+      assert.equal(await call(ok.urls["x-success"]), 404);
+      assert.equal(server.size, 0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("times out when Bear never answers", async () => {
+    const server = new CallbackServer({ defaultTimeout: 20 });
+    try {
+      const pending = await server.register("search");
+      await assert.rejects(pending.result, /did not answer "search" within 20ms/);
+    } finally {
+      await server.close();
+    }
+  });
+});
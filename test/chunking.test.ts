@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BearClient } from "../src/bear-client.js";
+import { needsChunking, splitMarkdown, writeChunked } from "../src/chunking.js";
+import { FakeBearReply } from "../src/launcher.js";
+import { fakeBear } from "./helpers.js";
+
+const encoded = (text: string) => encodeURIComponent(text).length;
+
+// Seeded Markdown with headings, paragraphs, lists, fences and multi-byte text
+function markdown(seed: number, blocks: number): string {
+  const next = () => ((seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648);
+  const words = ["bear", "note", "ünïcode", "🐻", "a&b", "100%", "#tag", "[[link]]", "x"];
+  const line = () => Array.from({ length: 1 + Math.floor(next() * 12) }, () => words[Math.floor(next() * words.length)]).join(" ");
+  const out: string[] = [];
+  for (let i = 0; i < blocks; i++) {
+    const kind = Math.floor(next() * 4);
+    if (kind === 0) out.push(`## ${line()}`);
+    if (kind === 1) out.push(Array.from({ length: 1 + Math.floor(next() * 4) }, line).join("\n"));
+    if (kind === 2) out.push(Array.from({ length: 1 + Math.floor(next() * 5) }, () => `- ${line()}`).join("\n"));
+    if (kind === 3) out.push(["```js", ...Array.from({ length: 1 + Math.floor(next() * 4) }, line), "", line(), "```"].join("\n"));
+  }
+  return out.join(next() < 0.5 ? "\n\n" : "\n\n\n") + "\n";
+}
+
+// Fence lines opened and not yet closed at the end of a chunk
+function openFences(chunk: string): number {
+  return chunk.split("\n").filter((line) => /^\s*(```|~~~)/.test(line)).length % 2;
+}
+
+describe("splitMarkdown", () => {
+  it("returns chunks that concatenate back to the input, each within the limit", () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const text = markdown(seed, 60);
+      const chunks = splitMarkdown(text, 800);
+      assert.equal(chunks.join(""), text, `seed ${seed}`);
+      assert.ok(chunks.every((chunk) => encoded(chunk) <= 800), `seed ${seed}`);
+    }
+  });
+
+  it("never splits a fenced block that fits in a chunk", () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const chunks = splitMarkdown(markdown(seed, 60), 800);
+      assert.ok(chunks.every((chunk) => openFences(chunk) === 0), `seed ${seed}`);
+    }
+  });
+
+  it("splits oversized blocks by line, then by character, keeping surrogate pairs", () => {
+    const paragraph = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+    const lines = splitMarkdown(paragraph, 40);
+    assert.equal(lines.join(""), paragraph);
+    assert.ok(lines.every((chunk) => encoded(chunk) <= 40));
+
+    const bears = "🐻".repeat(50);
+    const pieces = splitMarkdown(bears, 40);
+    assert.equal(pieces.join(""), bears);
+    assert.ok(pieces.every((chunk) => /^(🐻)+$/u.test(chunk) && encoded(chunk) <= 40));
+  });
+
+  it("is only used for long create and add-text text", () => {
+    assert.equal(needsChunking("create", { text: "a".repeat(11) }, 10), true);
+    assert.equal(needsChunking("create", { text: "a".repeat(10) }, 10), false);
+    assert.equal(needsChunking("create", { text: "&".repeat(4) }, 10), true);
+    assert.equal(needsChunking("open-note", { text: "a".repeat(11) }, 10), false);
+  });
+});
+
+// A fake Bear that keeps note texts, so chunked writes can be read back
+function notebook(options: { dropChunk?: number } = {}) {
+  const texts: Record<string, string> = { "ID-1": "existing\n" };
+  let addTexts = 0;
+  const { bear, launcher } = fakeBear((action, params): FakeBearReply => {
+    switch (action) {
+      case "create":
+        texts["NEW-1"] = params.text;
+        return { type: "success", params: { identifier: "NEW-1", title: "New" } };
+      case "add-text": {
+        if (++addTexts === options.dropChunk) return { type: "success" };
+        const current = texts[params.id] ?? "";
+        texts[params.id] = params.mode === "prepend" ? params.text + current
+          : params.mode === "replace_all" ? params.text
+          : current + params.text;
+        return { type: "success" };
+      }
+      case "open-note":
+        return { type: "success", params: { identifier: params.id, note: texts[params.id] ?? "" } };
+      default:
+        return { type: "success" };
+    }
+  }, { chunkSize: 300 });
+  return { bear, launcher, texts };
+}
+
+describe("writeChunked through BearClient and FakeLauncher", () => {
+  const text = markdown(7, 40);
+
+  it("creates a note from the first chunk and appends the rest to it", async () => {
+    const { bear, launcher, texts } = notebook();
+    const result = await bear.executeWithCallback("create", { title: "New", text });
+
+    assert.equal(result.identifier, "NEW-1");
+    assert.equal(texts["NEW-1"], text);
+    const writes = launcher.launched.filter((l) => l.action !== "open-note");
+    assert.equal(writes[0].action, "create");
+    assert.ok(writes.length > 2);
+    assert.ok(writes.slice(1).every((l) => l.action === "add-text" && l.params.id === "NEW-1" && l.params.mode === "append"));
+    assert.equal(launcher.launched.at(-1)!.action, "open-note");
+  });
+
+  it("keeps the order when appending, prepending and replacing", async () => {
+    for (const mode of ["append", "prepend", "replace_all"]) {
+      const { bear, texts } = notebook();
+      await bear.run("add-text", { id: "ID-1", text, mode });
+      const expected = mode === "append" ? `existing\n${text}` : mode === "prepend" ? `${text}existing\n` : text;
+      assert.equal(texts["ID-1"], expected, mode);
+    }
+  });
+
+  it("fails when the note read back is missing part of the text", async () => {
+    const { bear } = notebook({ dropChunk: 2 });
+    await assert.rejects(bear.run("add-text", { id: "ID-1", text, mode: "append" }), /missing part of the text/);
+  });
+
+  it("needs Bear to report the created note", async () => {
+    const { bear } = fakeBear(() => ({ type: "success" }), { chunkSize: 300 });
+    await assert.rejects(writeChunked(bear, "create", { text }, 300), /did not report the new note's identifier/);
+  });
+});
+
+describe("URL and chunk size settings", () => {
+  for (const name of ["BEAR_CHUNK_SIZE", "BEAR_MAX_URL_LENGTH", "BEAR_MAX_ATTACHMENT_URL_LENGTH"]) {
+    it(`refuses a ${name} that isn't a whole number`, () => {
+      const saved = process.env[name];
+      try {
+        for (const value of ["32k", "0", "-5", "1.5"]) {
+          process.env[name] = value;
+          assert.throws(() => new BearClient({ journal: null }), new RegExp(`${name} must be a whole number`), value);
+        }
+        process.env[name] = "5000";
+        const { bear } = fakeBear();
+        assert.equal(name === "BEAR_CHUNK_SIZE" ? bear.chunkSize : name === "BEAR_MAX_URL_LENGTH" ? bear.maxURLLength : bear.maxAttachmentURLLength, 5000);
+      } finally {
+        if (saved === undefined) delete process.env[name];
+        else process.env[name] = saved;
+      }
+    });
+  }
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, symlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { exportNotes, headingAnchor, noteFilename } from "../src/export.js";
+import { parseFrontMatter } from "../src/front-matter.js";
+import { fakeBear, structured, tempDir } from "./helpers.js";
+
+const NOTES: Record<string, Record<string, string>> = {
+  "ID-1": {
+    title: "Groceries",
+    note: "# Groceries\nSee [[Recipes]], [[recipes/Sourdough Dough|the dough]] and [[Missing]].\n`[[Recipes]]` stays.",
+    tags: "home,lists",
+    modificationDate: "2024-01-02T10:00:00Z",
+    pin: "yes",
+  },
+  "ID-2": { title: "Recipes", note: "# Recipes\n## Sourdough Dough\nflour", tags: "" },
+  "ID-3": { title: "Recipes", note: "# Recipes\nA second note with the same title", tags: "" },
+  "ID-4": { title: "a/b: c?", note: "# a/b: c?", tags: "" },
+};
+
+function exportBear() {
+  return fakeBear((action, params) => {
+    if (action === "open-note") {
+      const note = NOTES[params.id];
+      return note
+        ? { type: "success", params: { identifier: params.id, ...note } }
+        : { type: "error", errorCode: "1", errorMessage: "Note not found" };
+    }
+    if (action === "search") {
+      return { type: "success", params: { notes: JSON.stringify([{ identifier: "ID-1" }, { identifier: "ID-2" }]) } };
+    }
+    return { type: "success" };
+  });
+}
+
+const root = tempDir();
+const saved = process.env.BEAR_EXPORT_DIR;
+before(() => {
+  process.env.BEAR_EXPORT_DIR = root;
+});
+after(() => {
+  if (saved === undefined) delete process.env.BEAR_EXPORT_DIR;
+  else process.env.BEAR_EXPORT_DIR = saved;
+});
+
+describe("exportNotes", () => {
+  it("writes Markdown with front matter, rewriting links between exported notes", async () => {
+    const { bear } = exportBear();
+    const result = structured(await exportNotes(bear, { ids: ["ID-1", "ID-2", "ID-3", "ID-4", "ID-9"], directory: "out" }));
+
+    assert.deepEqual(result.files.map((f: any) => f.file), ["Groceries.md", "Recipes.md", "Recipes (2).md", "a-b- c-.md"]);
+    assert.equal(result.links_rewritten, 2);
+    assert.deepEqual(result.failed.map((f: any) => f.identifier), ["ID-9"]);
+    assert.match(result.failed[0].error, /Note not found/);
+
+    const { data, body } = parseFrontMatter(readFileSync(join(root, "out", "Groceries.md"), "utf8"));
+    assert.deepEqual(data, {
+      id: "ID-1",
+      title: "Groceries",
+      tags: ["home", "lists"],
+      modified: "2024-01-02T10:00:00.000Z",
+      pinned: true,
+    });
+    assert.equal(
+      body,
+      "# Groceries\nSee [Recipes](Recipes.md), [the dough](Recipes.md#sourdough-dough) and [[Missing]].\n`[[Recipes]]` stays.\n"
+    );
+  });
+
+  it("writes an index and a JSON archive when asked", async () => {
+    const { bear } = exportBear();
+    await exportNotes(bear, { search: "x", directory: "indexed", index: true, archive: true });
+
+    assert.equal(readFileSync(join(root, "indexed", "index.md"), "utf8"), "# Index\n\n- [Groceries](Groceries.md)\n- [Recipes](Recipes.md)\n");
+    const archive = JSON.parse(readFileSync(join(root, "indexed", "notes.json"), "utf8"));
+    assert.deepEqual(archive.notes.map((n: any) => [n.identifier, n.file]), [["ID-1", "Groceries.md"], ["ID-2", "Recipes.md"]]);
+    assert.equal(archive.selection.search, "x");
+  });
+
+  it("stays inside the export directory", async () => {
+    const { bear } = exportBear();
+    const outside = tempDir();
+    symlinkSync(outside, join(root, "link"));
+
+    for (const directory of ["../escape", outside, ".", "", "link", "link/deeper", "out/../../escape"]) {
+      await assert.rejects(exportNotes(bear, { ids: ["ID-2"], directory }), /must be a subdirectory/, directory);
+    }
+    assert.equal(existsSync(join(outside, "deeper")), false);
+    assert.equal(existsSync(join(root, "..", "escape")), false);
+  });
+
+  it("won't mix with an earlier export unless overwrite is set", async () => {
+    const { bear } = exportBear();
+    mkdirSync(join(root, "again"));
+    writeFileSync(join(root, "again", "old.md"), "old");
+
+    await assert.rejects(exportNotes(bear, { ids: ["ID-2"], directory: "again" }), /already contains files/);
+    await exportNotes(bear, { ids: ["ID-2"], directory: "again", overwrite: true });
+    assert.ok(existsSync(join(root, "again", "Recipes.md")));
+  });
+
+  it("fails when no note could be read", async () => {
+    const { bear } = exportBear();
+    await assert.rejects(exportNotes(bear, { ids: ["ID-9"], directory: "none" }), /No notes matched the export; 1 could not be read/);
+  });
+});
+
+describe("noteFilename and headingAnchor", () => {
+  it("makes titles safe as filenames", () => {
+    assert.equal(noteFilename("a/b\\c:d*e?f\"g<h>i|j#k[l]", "X"), "a-b-c-d-e-f-g-h-i-j-k-l-");
+    assert.equal(noteFilename("..hidden  name. ", "X"), "hidden name");
+    assert.equal(noteFilename(" ... ", "ID-1"), "ID-1");
+    assert.equal(noteFilename("x".repeat(300), "X").length, 100);
+  });
+
+  it("builds GitHub-style anchors", () => {
+    assert.equal(headingAnchor("Sourdough Dough"), "sourdough-dough");
+    assert.equal(headingAnchor(" Q3: Risks & Éclairs! "), "q3-risks--éclairs");
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { frontMatterBoolean, frontMatterList, parseFrontMatter, stringifyFrontMatter } from "../src/front-matter.js";
+
+describe("parseFrontMatter", () => {
+  it("reads scalars, quoted strings, booleans and lists", () => {
+    const { data, body } = parseFrontMatter([
+      "---",
+      "title: Weekly {{week}}",
+      'quoted: "a: \\"b\\""',
+      "single: 'it''s'",
+      "pin: true",
+      "inline: [a, 'b c', \"d\"]",
+      "tags:",
+      "  - work",
+      "  - \"reading list\"",
+      "# a comment",
+      "empty:",
+      "none: []",
+      "---",
+      "",
+      "# Body",
+    ].join("\n"));
+
+    assert.deepEqual(data, {
+      title: "Weekly {{week}}",
+      quoted: 'a: "b"',
+      single: "it's",
+      pin: true,
+      inline: ["a", "b c", "d"],
+      tags: ["work", "reading list"],
+      empty: "",
+      none: [],
+    });
+    assert.equal(body, "# Body");
+  });
+
+  it("returns text without front matter unchanged", () => {
+    for (const text of ["# Just a note\n", "---\nnot closed\n", "text\n---\nkey: value\n---\n"]) {
+      assert.deepEqual(parseFrontMatter(text), { data: {}, body: text });
+    }
+  });
+
+  it("accepts a byte order mark and CRLF line endings", () => {
+    assert.deepEqual(parseFrontMatter("﻿---\r\ntitle: T\r\n---\r\nbody"), { data: { title: "T" }, body: "body" });
+  });
+});
+
+describe("stringifyFrontMatter", () => {
+  it("round-trips through parseFrontMatter", () => {
+    const data = {
+      title: "Plain title",
+      colon: "a: b",
+      hash: "#tag",
+      yes: "yes",
+      number: "2024",
+      spaced: "trailing ",
+      quote: 'say "hi"',
+      empty: "",
+      pinned: false,
+      tags: ["work", "reading list", "a, b"],
+      none: [],
+    };
+    const text = stringifyFrontMatter({ ...data, skipped: undefined });
+    assert.doesNotMatch(text, /skipped/);
+    assert.deepEqual(parseFrontMatter(`${text}body`), { data, body: "body" });
+  });
+
+  it("leaves simple values unquoted", () => {
+    assert.equal(stringifyFrontMatter({ title: "Groceries", id: "ABC-123" }), "---\ntitle: Groceries\nid: ABC-123\n---\n");
+  });
+});
+
+describe("frontMatterList and frontMatterBoolean", () => {
+  it("accept lists or comma-separated strings, and yes/no", () => {
+    assert.deepEqual(frontMatterList({ tags: "a, b,,c" }, "tags"), ["a", "b", "c"]);
+    assert.deepEqual(frontMatterList({ tags: true }, "tags"), []);
+    assert.equal(frontMatterBoolean({ pin: "Yes" }, "pin"), true);
+    assert.equal(frontMatterBoolean({ pin: "maybe" }, "pin"), undefined);
+  });
+});
@@ -0,0 +1,44 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after } from "node:test";
+import { BearClient, BearClientOptions } from "../src/bear-client.js";
+import { FakeBearResponder, FakeLauncher, loadFakeResponses } from "../src/launcher.js";
+import { ToolResult } from "../src/registry.js";
+import { TokenProvider } from "../src/token.js";
+
+// A BearClient talking to an in-process fake Bear, with a fixed API token and
+// no undo journal unless one is passed in
+export function fakeBear(
+  responder?: FakeBearResponder,
+  options: BearClientOptions = {}
+): { bear: BearClient; launcher: FakeLauncher } {
+  const launcher = new FakeLauncher(responder);
+  const bear = new BearClient({
+    launcher,
+    journal: null,
+    tokens: new TokenProvider(launcher, { token: "TEST-TOKEN" }),
+    ...options,
+  });
+  after(() => bear.close());
+  return { bear, launcher };
+}
+
+// Canned Bear replies keyed by action, loaded the way BEAR_FAKE_RESPONSES is
+export function cannedReplies(responses: Record<string, Record<string, unknown>>): FakeBearResponder {
+  const path = join(tempDir(), "responses.json");
+  writeFileSync(path, JSON.stringify(responses));
+  return loadFakeResponses(path);
+}
+
+// A temporary directory removed when the test file finishes
+export function tempDir(prefix = "bear-test-"): string {
+  const dir = mkdtempSync(join(tmpdir(), prefix));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+// The structured JSON block of a tool result
+export function structured(result: ToolResult): any {
+  return JSON.parse(result.content[0].text);
+}
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { importNotes } from "../src/import.js";
+import { fakeBear, structured, tempDir } from "./helpers.js";
+
+const NOTION_ID = "0123456789abcdef0123456789abcdef";
+
+const FILES: Record<string, string> = {
+  [`Projects ${NOTION_ID}.md`]: [
+    "# Projects",
+    "",
+    "Tags: Work, Q3 Plans",
+    "Status: Active",
+    "",
+    `See [the ideas](Ideas%20${NOTION_ID}.md#next-steps) and ![chart](chart.png) below.`,
+    "![](images/photo.png)",
+    "Kept: ![gone](nope.png) and ![remote](https://example.com/a.png)",
+    "",
+  ].join("\n"),
+  [`Ideas ${NOTION_ID}.md`]: "# Ideas\n\n## Next steps\n",
+  "journal/Daily.md": [
+    "---",
+    "title: Daily Log",
+    "tags: [journal, \"#daily\"]",
+    "---",
+    "# Something else",
+    "Links: [[Projects#Tasks|the tasks]] and ![[photo.png|300]] ![[Ideas]]",
+    "  ![](../chart.png) indented",
+    "```",
+    "[[Projects]] ![[photo.png]]",
+    "```",
+  ].join("\n"),
+  "chart.png": "chart",
+  "images/photo.png": "photo",
+};
+
+function importBear(existing: Array<Record<string, string>> = []) {
+  return fakeBear((action, params) => {
+    if (action === "search") return { type: "success", params: { notes: JSON.stringify(existing) } };
+    if (action === "create") return { type: "success", params: { identifier: `NEW-${params.title}` } };
+    return { type: "success" };
+  });
+}
+
+const root = tempDir();
+const saved = process.env.BEAR_ATTACHMENT_DIRS;
+before(() => {
+  process.env.BEAR_ATTACHMENT_DIRS = root;
+  for (const [name, content] of Object.entries(FILES)) {
+    mkdirSync(join(root, name, ".."), { recursive: true });
+    writeFileSync(join(root, name), content);
+  }
+});
+after(() => {
+  if (saved === undefined) delete process.env.BEAR_ATTACHMENT_DIRS;
+  else process.env.BEAR_ATTACHMENT_DIRS = saved;
+});
+
+describe("importNotes", () => {
+  it("takes titles and tags from front matter, the H1 and Notion properties", async () => {
+    const { bear, launcher } = importBear();
+    const data = structured(await importNotes(bear, { directory: root, dry_run: true, tags: "imported" }));
+
+    assert.deepEqual(data.results.map((r: any) => [r.file, r.status, r.title, r.tags]), [
+      [`Ideas ${NOTION_ID}.md`, "would_create", "Ideas", ["imported"]],
+      ["journal/Daily.md", "would_create", "Daily Log", ["journal", "daily", "imported"]],
+      [`Projects ${NOTION_ID}.md`, "would_create", "Projects", ["Work", "Q3 Plans", "imported"]],
+    ]);
+    assert.deepEqual(data.results[2].attachments, ["chart.png", "images/photo.png"]);
+    assert.deepEqual(data.results[2].warnings, ["Attachment not found: nope.png"]);
+    assert.deepEqual(launcher.launched.map((call) => call.action), ["search"]);
+  });
+
+  it("converts links and embeds, dropping attached images without leaving gaps", async () => {
+    const { bear, launcher } = importBear();
+    await importNotes(bear, { directory: root });
+
+    const created = Object.fromEntries(
+      launcher.launched.filter((call) => call.action === "create").map((call) => [call.params.title, call.params])
+    );
+    assert.equal(created["Projects"].text, [
+      "Status: Active",
+      "",
+      "See [[Ideas/next steps]] and below.",
+      "Kept: ![gone](nope.png) and ![remote](https://example.com/a.png)",
+      "",
+    ].join("\n"));
+    assert.equal(created["Projects"].tags, "Work,Q3 Plans");
+    assert.equal(created["Daily Log"].text, [
+      "# Something else",
+      "Links: [[Projects/Tasks]] and [[Ideas]]",
+      "  indented",
+      "```",
+      "[[Projects]] ![[photo.png]]",
+      "```",
+    ].join("\n"));
+
+    const files = launcher.launched.filter((call) => call.action === "add-file").map((call) => [call.params.id, call.params.filename]);
+    assert.deepEqual(files, [
+      ["NEW-Daily Log", "photo.png"],
+      ["NEW-Daily Log", "chart.png"],
+      ["NEW-Projects", "chart.png"],
+      ["NEW-Projects", "photo.png"],
+    ]);
+  });
+
+  it("skips titles that already exist unless asked to create them", async () => {
+    const { bear } = importBear([{ identifier: "OLD-1", title: "ideas" }]);
+    const data = structured(await importNotes(bear, { directory: root, dry_run: true }));
+    assert.deepEqual(data.results[0], {
+      file: `Ideas ${NOTION_ID}.md`,
+      status: "duplicate",
+      title: "Ideas",
+      identifier: "OLD-1",
+      tags: [],
+      attachments: [],
+      warnings: [],
+    });
+
+    const { bear: other, launcher } = importBear([{ identifier: "OLD-1", title: "ideas" }]);
+    const created = structured(await importNotes(other, { directory: root, dry_run: true, on_duplicate: "create" }));
+    assert.equal(created.results[0].status, "would_create");
+    assert.equal(launcher.launched.length, 0);
+  });
+
+  it("refuses directories outside BEAR_ATTACHMENT_DIRS", async () => {
+    const { bear } = importBear();
+    await assert.rejects(importNotes(bear, { directory: tempDir() }), /outside the allowed attachment directories/);
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { existsSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { Journal, listHistory, undoLast } from "../src/journal.js";
+import { fakeBear, structured, tempDir } from "./helpers.js";
+
+// A fake Bear holding note texts, so undo can be checked against the content
+function journaledBear(texts: Record<string, string>, size?: number) {
+  const journal = new Journal({ path: join(tempDir(), "journal.json"), size });
+  const { bear, launcher } = fakeBear((action, params) => {
+    if (action === "open-note") {
+      return { type: "success", params: { identifier: params.id, title: params.id, note: texts[params.id] } };
+    }
+    if (action === "add-text") {
+      texts[params.id] = params.mode === "replace_all" ? params.text : `${texts[params.id]}\n${params.text}`;
+    }
+    return { type: "success" };
+  }, { journal });
+  return { bear, launcher, journal, texts };
+}
+
+describe("undo journal", () => {
+  it("records snapshots, keeping only a preview of the written text", async () => {
+    const { bear, journal } = journaledBear({ A: "# A\nbefore" });
+    const long = "x".repeat(500);
+    await bear.run("add-text", { id: "A", text: long, mode: "append" });
+    await bear.run("add-file", { id: "A", file: "aGVsbG8=", filename: "a.txt" });
+
+    const [edit, attach] = journal.entries();
+    assert.deepEqual(edit.notes, [{ identifier: "A", title: "A", text: "# A\nbefore" }]);
+    assert.equal(edit.params.text, `${"x".repeat(80)}…`);
+    assert.equal(edit.params.mode, "append");
+    assert.equal(attach.params.file, undefined);
+    assert.equal(statSync(journal.path).mode & 0o777, 0o600);
+  });
+
+  it("keeps only the newest entries", async () => {
+    const { bear, journal } = journaledBear({ A: "a" }, 2);
+    for (const text of ["1", "2", "3"]) {
+      await bear.run("add-text", { id: "A", text, mode: "append" });
+    }
+    assert.deepEqual(journal.entries().map((e) => e.params.text), ["2", "3"]);
+  });
+
+  it("does not journal reads or its own undo steps", async () => {
+    const { bear, journal } = journaledBear({ A: "a" });
+    await bear.executeWithCallback("open-note", { id: "A" });
+    assert.equal(existsSync(journal.path), false);
+
+    await bear.run("add-text", { id: "A", text: "b", mode: "append" });
+    await undoLast(bear, {});
+    assert.equal(journal.entries().length, 1);
+  });
+
+  it("undoes the most recent changes, newest first", async () => {
+    const { bear, journal, texts } = journaledBear({ A: "a" });
+    await bear.run("add-text", { id: "A", text: "b", mode: "append" });
+    await bear.run("add-text", { id: "A", text: "c", mode: "append" });
+    assert.equal(texts.A, "a\nb\nc");
+
+    const result = await undoLast(bear, { count: 2 });
+    assert.equal(texts.A, "a");
+    assert.equal(structured(result).undone.length, 2);
+    assert.ok(journal.entries().every((e) => e.undone_at));
+    assert.equal(structured(await undoLast(bear, {})).message, "Nothing to undo");
+  });
+
+  it("refuses to undo an older entry when a newer one changed the same note", async () => {
+    const { bear, journal, texts } = journaledBear({ A: "a", B: "b" });
+    await bear.run("add-text", { id: "A", text: "1", mode: "append" });
+    await bear.run("add-text", { id: "B", text: "2", mode: "append" });
+    await bear.run("add-text", { id: "A", text: "3", mode: "append" });
+    const [first, other, last] = journal.entries();
+
+    await assert.rejects(undoLast(bear, { id: first.id }), new RegExp(`later changes.*${last.id} add-text`));
+    assert.equal(texts.A, "a\n1\n3");
+
+    await undoLast(bear, { id: other.id });
+    assert.equal(texts.B, "b");
+    await undoLast(bear, { id: last.id });
+    await undoLast(bear, { id: first.id });
+    assert.equal(texts.A, "a");
+    await assert.rejects(undoLast(bear, { id: first.id }), /already undone/);
+  });
+
+  it("untrashes notes and renames tags back", async () => {
+    const { bear, launcher } = journaledBear({ A: "a" });
+    await bear.run("trash", { id: "A" });
+    await bear.run("rename-tag", { name: "old", new_name: "new" });
+    launcher.reset();
+
+    await undoLast(bear, { count: 2 });
+    assert.deepEqual(
+      launcher.launched.map((l) => [l.action, l.params.id ?? `${l.params.name}→${l.params.new_name}`]),
+      [["rename-tag", "new→old"], ["untrash", "A"]]
+    );
+  });
+
+  it("reports archive as irreversible", async () => {
+    const { bear } = journaledBear({ A: "a" });
+    await bear.run("archive", { id: "A" });
+    const result = await undoLast(bear, {});
+    assert.equal(result.isError, true);
+    assert.match(structured(result).failed[0].error, /cannot be undone automatically/);
+  });
+
+  it("lists history newest first, without note contents", async () => {
+    const { bear } = journaledBear({ A: "secret text" });
+    await bear.run("add-text", { id: "A", text: "1", mode: "append" });
+    await bear.run("trash", { id: "A" });
+
+    const result = await listHistory(bear, { limit: 5 });
+    const { history } = structured(result);
+    assert.deepEqual(history.map((e: any) => e.action), ["trash", "add-text"]);
+    assert.deepEqual(history[0].notes, [{ identifier: "A", title: "A" }]);
+    assert.doesNotMatch(JSON.stringify(result), /secret text/);
+    assert.match(result.content[1].text, /add-text \(append\) A \[A\]/);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { FakeLauncher } from "../src/launcher.js";
+import { findBrokenLinks, parseWikiLinks, retitle, rewriteWikiLinks, splitTarget } from "../src/links.js";
+import { TokenProvider } from "../src/token.js";
+import { fakeBear, tempDir } from "./helpers.js";
+
+describe("splitTarget", () => {
+  it("splits a header off the last slash and drops aliases", () => {
+    assert.deepEqual(splitTarget("Recipes/Pasta", new Set()), { title: "Recipes", header: "Pasta" });
+    assert.deepEqual(splitTarget("A/B / Step 2 |see here", new Set()), { title: "A/B", header: "Step 2" });
+    assert.deepEqual(splitTarget("Recipes|my recipes", new Set()), { title: "Recipes" });
+    assert.deepEqual(splitTarget("Recipes/", new Set()), { title: "Recipes", header: undefined });
+  });
+
+  it("keeps slashes that belong to a known title or start the link", () => {
+    assert.deepEqual(splitTarget("Q3/Q4 Plan", new Set(["q3/q4 plan"])), { title: "Q3/Q4 Plan" });
+    assert.deepEqual(splitTarget("/etc", new Set()), { title: "/etc" });
+  });
+});
+
+describe("parseWikiLinks", () => {
+  it("finds links with their line and context, skipping code", () => {
+    const text = [
+      "# Index",
+      "See [[Recipes/Pasta]] and [[Groceries|the list]].",
+      "Not `[[In Code]]` though",
+      "```",
+      "[[Fenced]]",
+      "```",
+      "  [[Last]]  ",
+    ].join("\n");
+
+    assert.deepEqual(parseWikiLinks(text), [
+      { raw: "Recipes/Pasta", title: "Recipes", header: "Pasta", line: 2, context: "See [[Recipes/Pasta]] and [[Groceries|the list]]." },
+      { raw: "Groceries|the list", title: "Groceries", line: 2, context: "See [[Recipes/Pasta]] and [[Groceries|the list]]." },
+      { raw: "Last", title: "Last", line: 7, context: "[[Last]]" },
+    ]);
+  });
+
+  it("ignores empty and multi-line brackets", () => {
+    assert.deepEqual(parseWikiLinks("[[]] [[a\nb]]"), []);
+  });
+});
+
+describe("rewriteWikiLinks", () => {
+  it("renames links and their headers and aliases, leaving code and other notes alone", () => {
+    const text = "See [[Old]], [[old/Intro|here]] and [[Older]].\n`[[Old]]`\n```\n[[Old]]\n```";
+    const { text: rewritten, replaced } = rewriteWikiLinks(text, "Old", "New Name");
+
+    assert.equal(replaced, 2);
+    assert.equal(rewritten, "See [[New Name]], [[New Name/Intro|here]] and [[Older]].\n`[[Old]]`\n```\n[[Old]]\n```");
+  });
+
+  it("treats a slash as part of the title when a note is called that", () => {
+    const { text, replaced } = rewriteWikiLinks("[[Old/Draft]]", "Old", "New", new Set(["old/draft"]));
+    assert.equal(replaced, 0);
+    assert.equal(text, "[[Old/Draft]]");
+  });
+});
+
+describe("retitle", () => {
+  it("rewrites the first heading, keeping its level", () => {
+    assert.equal(retitle("# Old\nbody", "Old", "New"), "# New\nbody");
+    assert.equal(retitle("\n## Old ##\nbody", "Old", "New"), "\n## New\nbody");
+  });
+
+  it("replaces a plain first line only when it is the title", () => {
+    assert.equal(retitle("Old\nbody", "Old", "New"), "New\nbody");
+    assert.equal(retitle("Something else\nbody", "Old", "New"), "# New\nSomething else\nbody");
+    assert.equal(retitle("\n\n", "Old", "New"), "# New");
+  });
+});
+
+describe("link tools without an API token", () => {
+  it("fail clearly instead of reporting an empty library", async () => {
+    const tokens = new TokenProvider(new FakeLauncher(), { configPath: join(tempDir(), "missing.json") });
+    const { bear, launcher } = fakeBear(undefined, { tokens });
+
+    await assert.rejects(findBrokenLinks(bear, {}), /token is required for listing every note/);
+    assert.equal(launcher.launched.length, 0);
+  });
+});
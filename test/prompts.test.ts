@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BearPrompts } from "../src/prompts.js";
+import { fakeBear } from "./helpers.js";
+
+describe("BearPrompts", () => {
+  it("web_clipping asks the model to clip, without calling Bear", async () => {
+    const { bear, launcher } = fakeBear();
+    const prompt = await new BearPrompts(bear).get("web_clipping", { url: "https://example.com", tags: "reading" });
+
+    assert.equal(launcher.launched.length, 0);
+    const [message] = prompt.messages;
+    assert.equal(message.content.type, "text");
+    assert.match(message.content.type === "text" ? message.content.text : "", /bear_grab_url with url "https:\/\/example\.com" and tags "reading"/);
+  });
+
+  it("rejects missing required arguments", async () => {
+    const { bear } = fakeBear();
+    await assert.rejects(new BearPrompts(bear).get("web_clipping", {}), /Missing required arguments for web_clipping: url/);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { SearchIndex, splitPassages, tokenize } from "../src/search-index.js";
+import { fakeBear, tempDir } from "./helpers.js";
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and punctuation, and drops stopwords", () => {
+    assert.deepEqual(tokenize("The Café's crème-brûlée, and 42 ÉCLAIRS!"), ["cafe", "s", "creme", "brulee", "42", "eclairs"]);
+    assert.deepEqual(tokenize("日本語 text"), ["日本語", "text"]);
+    assert.deepEqual(tokenize("— … !"), []);
+  });
+});
+
+describe("splitPassages", () => {
+  const text = [
+    "Intro line",
+    "",
+    "# Projects",
+    "## Q3",
+    "Risks are high",
+    "",
+    "## Empty",
+    "",
+    "# Other",
+    "```",
+    "# not a heading",
+    "```",
+  ].join("\n");
+
+  it("splits by heading, skipping headings with nothing of their own", () => {
+    const passages = splitPassages(text, "My Note");
+    assert.deepEqual(passages.map((p) => [p.path.join(" > "), p.line]), [["", 1], ["Projects > Q3", 4], ["Other", 9]]);
+  });
+
+  it("counts the title before the first heading and the headings above each passage", () => {
+    const [intro, q3] = splitPassages(text, "My Note");
+    assert.deepEqual(intro.terms, { my: 1, note: 1, intro: 1, line: 1 });
+    assert.equal(q3.terms.projects, 1);
+    assert.equal(q3.terms.q3, 2);
+    assert.equal(q3.length, Object.values(q3.terms).reduce((a, b) => a + b, 0));
+  });
+
+  it("splits long sections at blank lines", () => {
+    const paragraph = "word ".repeat(100).trim();
+    const long = ["# Long", ...Array.from({ length: 10 }, () => `${paragraph}\n`)].join("\n");
+    const passages = splitPassages(long);
+    assert.ok(passages.length > 1);
+    assert.ok(passages.every((p) => p.path.join() === "Long" && p.text.length <= 2000 + paragraph.length));
+    assert.deepEqual(passages.map((p) => p.line), [...passages.map((p) => p.line)].sort((a, b) => a - b));
+  });
+});
+
+// A library of notes behind a fake Bear; tests change it between refreshes
+function library(notes: Record<string, { title: string; body: string; tags?: string[]; modified?: string }>) {
+  const { bear, launcher } = fakeBear((action, params) => {
+    if (action === "search") {
+      const listed = Object.entries(notes).map(([identifier, note]) => ({
+        identifier,
+        title: note.title,
+        tags: note.tags ?? [],
+        modificationDate: note.modified ?? "2024-01-01T00:00:00Z",
+      }));
+      return { type: "success", params: { notes: JSON.stringify(listed) } };
+    }
+    if (action === "open-note") {
+      return { type: "success", params: { identifier: params.id, note: notes[params.id].body } };
+    }
+    return { type: "success" };
+  });
+  return { bear, launcher, notes };
+}
+
+describe("SearchIndex", () => {
+  const NOTES = {
+    A: { title: "Sourdough", body: "# Sourdough\nStarter, flour and water. Bake at 250 degrees.", tags: ["cooking"] },
+    B: { title: "Bread basics", body: "# Bread basics\nFlour, water, salt. Flour flour flour.", tags: ["cooking/bread"] },
+    C: { title: "Standup", body: "# Standup\n## Risks\nThe oven vendor is late.", tags: ["work"] },
+  };
+
+  it("ranks rarer and more frequent terms higher", async () => {
+    const { bear } = library(structuredClone(NOTES));
+    const index = new SearchIndex({ path: join(tempDir(), "index.json") });
+    assert.deepEqual(await index.refresh(bear), { updated: 3, removed: 0 });
+
+    const flour = index.search("flour", { mode: "keyword", limit: 10 });
+    assert.deepEqual(flour.map((h) => h.identifier), ["B", "A"]);
+    assert.ok(flour[0].score > flour[1].score);
+
+    const [starter] = index.search("starter flour", { mode: "keyword", limit: 10 });
+    assert.equal(starter.identifier, "A");
+    assert.match(starter.snippet, /Starter, flour/);
+
+    const [risk] = index.search("vendor", { mode: "keyword", limit: 10 });
+    assert.deepEqual([risk.identifier, risk.header, risk.path, risk.line], ["C", "Risks", "Standup > Risks", 2]);
+    assert.deepEqual(index.search("nothing matches", { mode: "keyword", limit: 10 }), []);
+  });
+
+  it("filters by tag, including nested tags, with statistics from the whole index", async () => {
+    const { bear } = library(structuredClone(NOTES));
+    const index = new SearchIndex({ path: join(tempDir(), "index.json") });
+    await index.refresh(bear);
+
+    assert.deepEqual(index.search("flour", { mode: "keyword", tag: "#cooking", limit: 10 }).map((h) => h.identifier), ["B", "A"]);
+    assert.deepEqual(index.search("flour", { mode: "keyword", tag: "cooking/bread", limit: 10 }).map((h) => h.identifier), ["B"]);
+    assert.deepEqual(index.search("flour", { mode: "keyword", tag: "work", limit: 10 }), []);
+  });
+
+  it("re-reads only changed notes, drops deleted ones and persists to disk", async () => {
+    const { bear, launcher, notes } = library(structuredClone(NOTES));
+    const path = join(tempDir(), "index.json");
+    const index = new SearchIndex({ path });
+    await index.refresh(bear);
+
+    launcher.reset();
+    notes.A = { ...notes.A, body: "# Sourdough\nRye only now.", modified: "2024-02-01T00:00:00Z" };
+    delete (notes as Record<string, unknown>).C;
+    assert.deepEqual(await index.refresh(bear), { updated: 1, removed: 1 });
+    assert.deepEqual(launcher.launched.filter((l) => l.action === "open-note").map((l) => l.params.id), ["A"]);
+
+    const reloaded = new SearchIndex({ path });
+    assert.deepEqual(reloaded.notes().map((n) => n.identifier).sort(), ["A", "B"]);
+    assert.deepEqual(reloaded.search("flour", { mode: "keyword", limit: 10 }).map((h) => h.identifier), ["B"]);
+    assert.equal(reloaded.search("rye", { mode: "keyword", limit: 10 })[0].identifier, "A");
+    assert.deepEqual(reloaded.search("vendor", { mode: "keyword", limit: 10 }), []);
+  });
+
+  it("scores semantic and hybrid searches with a query vector", async () => {
+    const { bear } = library(structuredClone(NOTES));
+    const index = new SearchIndex({
+      path: join(tempDir(), "index.json"),
+      embedder: {
+        name: "test",
+        embed: async (texts) => texts.map((text) => (/oven|bake/i.test(text) ? [1, 0] : [0, 1])),
+      },
+    });
+    await index.refresh(bear);
+
+    const semantic = index.search("anything", { mode: "semantic", vector: [1, 0], limit: 10 });
+    assert.deepEqual(semantic.map((h) => h.identifier).sort(), ["A", "C"]);
+    const hybrid = index.search("flour", { mode: "hybrid", vector: [1, 0], limit: 10 });
+    assert.equal(hybrid[0].identifier, "A");
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applySectionEdit, findSection, parseSections } from "../src/sections.js";
+import { EditSectionArgs } from "../src/schemas.js";
+
+const NOTE = [
+  "# Plan",
+  "intro",
+  "",
+  "## Work",
+  "w",
+  "",
+  "### Risks",
+  "r1",
+  "",
+  "## Home",
+  "h",
+  "",
+  "### Risks",
+  "r2",
+  "```",
+  "# not a heading",
+  "```",
+  "",
+].join("\n");
+
+function edit(args: Omit<EditSectionArgs, "id">, text = NOTE): string {
+  return applySectionEdit(text, { id: "ID-1", ...args });
+}
+
+describe("parseSections and findSection", () => {
+  it("nests sections and skips headings in code fences", () => {
+    const sections = parseSections(NOTE.split("\n"));
+    assert.deepEqual(sections.map((s) => s.path.join(" > ")), [
+      "Plan", "Plan > Work", "Plan > Work > Risks", "Plan > Home", "Plan > Home > Risks",
+    ]);
+    assert.deepEqual([sections[1].start, sections[1].end], [3, 9]);
+  });
+
+  it("matches paths from any depth, case-insensitively", () => {
+    const sections = parseSections(NOTE.split("\n"));
+    assert.equal(findSection(sections, "home > RISKS").start, 12);
+    assert.equal(findSection(sections, "## Plan > Work > Risks").start, 6);
+  });
+
+  it("rejects ambiguous and unknown paths, listing the candidates", () => {
+    const sections = parseSections(NOTE.split("\n"));
+    assert.throws(() => findSection(sections, "Risks"), /ambiguous.*\n- Plan > Work > Risks\n- Plan > Home > Risks/s);
+    assert.throws(() => findSection(sections, "Garden"), /No section matches "Garden".*- Plan > Home/s);
+    assert.throws(() => findSection(sections, " > "), /at least one heading/);
+  });
+});
+
+describe("applySectionEdit", () => {
+  it("replace_section replaces the body and keeps the heading", () => {
+    assert.equal(
+      edit({ operation: "replace_section", path: "Work > Risks", text: "none\n" }),
+      NOTE.replace("### Risks\nr1\n", "### Risks\nnone\n")
+    );
+  });
+
+  it("insert_after_section adds a padded block after the section", () => {
+    assert.equal(
+      edit({ operation: "insert_after_section", path: "Work", text: "## Later\nl" }),
+      NOTE.replace("r1\n\n## Home", "r1\n\n## Later\nl\n\n## Home")
+    );
+  });
+
+  it("delete_section removes the section with its subsections", () => {
+    assert.equal(edit({ operation: "delete_section", path: "Work" }), NOTE.replace(/## Work[^]*?(?=## Home)/, ""));
+  });
+
+  it("keeps the note's final newline when deleting the last section", () => {
+    assert.equal(edit({ operation: "delete_section", path: "B" }, "# T\n## A\na1\n## B\nb\n"), "# T\n## A\na1\n");
+    assert.equal(edit({ operation: "delete_section", path: "B" }, "# T\n## A\na1\n\n## B\nb"), "# T\n## A\na1");
+    assert.equal(edit({ operation: "insert_after_section", path: "B", text: "c" }, "## A\na\n## B\nb\n"), "## A\na\n## B\nb\n\nc\n");
+  });
+
+  it("move_section re-levels the moved headings to the target's level", () => {
+    const moved = edit({ operation: "move_section", path: "Home > Risks", to: "Plan", position: "after" });
+    assert.match(moved, /\n# Risks\nr2\n```\n# not a heading\n```\n$/);
+    assert.doesNotMatch(moved, /### Risks\nr2/);
+
+    const promoted = edit({ operation: "move_section", path: "Home", to: "Work > Risks", position: "before" });
+    assert.match(promoted, /## Work\nw\n\n### Home\nh\n\n#### Risks\nr2\n[^]*\n### Risks\nr1\n/);
+  });
+
+  it("move_section refuses headings that would leave the 1-6 range", () => {
+    const deep = "# A\n## B\n### C\n#### D\n##### E\n###### F\nf\n# G\n## H\nh\n";
+    assert.throws(() => edit({ operation: "move_section", path: "G", to: "F" }, deep), /level 7 heading for "H"/);
+  });
+
+  it("move_section can't move a section next to itself or its children", () => {
+    assert.throws(() => edit({ operation: "move_section", path: "Work", to: "Work > Risks" }), /No section matches/);
+  });
+});
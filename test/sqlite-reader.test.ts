@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { LockedError, NotFoundError } from "../src/errors.js";
+import { SQLiteReader } from "../src/sqlite-reader.js";
+import { tempDir } from "./helpers.js";
+
+const CORE_DATA_EPOCH = 978307200;
+
+// A Bear 2 style database: notes, tags and the Z_5TAGS join table
+function fixture(): string {
+  const path = join(tempDir(), "database.sqlite");
+  const db = new Database(path);
+  db.exec(`
+    CREATE TABLE ZSFNOTE (Z_PK INTEGER PRIMARY KEY, ZARCHIVED INTEGER, ZENCRYPTED INTEGER, ZPERMANENTLYDELETED INTEGER,
+      ZPINNED INTEGER, ZTRASHED INTEGER, ZTODOINCOMPLETED INTEGER, ZCREATIONDATE TIMESTAMP, ZMODIFICATIONDATE TIMESTAMP,
+      ZTITLE VARCHAR, ZTEXT VARCHAR, ZUNIQUEIDENTIFIER VARCHAR);
+    CREATE TABLE ZSFNOTETAG (Z_PK INTEGER PRIMARY KEY, ZTITLE VARCHAR);
+    CREATE TABLE Z_5TAGS (Z_5NOTES INTEGER, Z_13TAGS INTEGER);
+  `);
+
+  const now = Date.now() / 1000 - CORE_DATA_EPOCH;
+  const note = db.prepare("INSERT INTO ZSFNOTE VALUES (?, 0, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?)");
+  // pk, encrypted, pinned, trashed, open todos, created, modified, title, text, identifier
+  note.run(1, 0, 1, 0, 1, now - 9000, now - 60, "Groceries", "# Groceries\n- [ ] milk 100%", "ID-1");
+  note.run(2, 0, 0, 0, 0, now - 9000, now - 86400 * 3, "Recipes", "# Recipes\nsnake_case and 100 percent", "ID-2");
+  note.run(3, 0, 0, 1, 0, now - 9000, now - 86400, "Old", "# Old\n100% trashed", "ID-3");
+  note.run(4, 1, 0, 0, 0, now - 9000, now - 86400, "Secret", "# Secret", "ID-4");
+  note.run(5, 0, 0, 0, 0, now - 9000, now - 86400 * 2, "Loose", "# Loose\nsnakeXcase", "ID-5");
+  note.run(6, 0, 0, 0, 0, now - 9000, now - 86400 * 4, "Inbox", "# Inbox", "ID-6");
+  db.exec(`
+    INSERT INTO ZSFNOTETAG VALUES (1, 'home'), (2, 'home/kitchen'), (3, 'homework'), (4, 'a_b');
+    INSERT INTO Z_5TAGS VALUES (1, 1), (2, 2), (4, 3), (5, 4);
+  `);
+  db.close();
+  return path;
+}
+
+const reader = new SQLiteReader(fixture());
+after(() => reader.close());
+
+const ids = (data: Record<string, any>) => data.notes.map((note: any) => note.identifier);
+
+describe("SQLiteReader", () => {
+  it("searches title and text, leaving out trashed notes", async () => {
+    assert.deepEqual(ids(await reader.read("search", { term: "groceries" })), ["ID-1"]);
+    assert.deepEqual(ids(await reader.read("search", { term: "100" })), ["ID-1", "ID-2"]);
+  });
+
+  it("matches % and _ literally", async () => {
+    assert.deepEqual(ids(await reader.read("search", { term: "100%" })), ["ID-1"]);
+    assert.deepEqual(ids(await reader.read("search", { term: "snake_case" })), ["ID-2"]);
+    assert.deepEqual(ids(await reader.read("search", { term: "%" })), ["ID-1"]);
+  });
+
+  it("matches nested tags in open-tag, but not tags that merely share a prefix", async () => {
+    assert.deepEqual(ids(await reader.read("open-tag", { name: "home" })), ["ID-1", "ID-2"]);
+    assert.deepEqual(ids(await reader.read("open-tag", { name: "home/kitchen" })), ["ID-2"]);
+    assert.deepEqual(ids(await reader.read("open-tag", { name: "a_b" })), ["ID-5"]);
+    assert.deepEqual(ids(await reader.read("open-tag", { name: "a%" })), []);
+  });
+
+  it("lists untagged notes and open todos", async () => {
+    assert.deepEqual(ids(await reader.read("untagged", {})), ["ID-6"]);
+    assert.deepEqual(ids(await reader.read("todo", {})), ["ID-1"]);
+    assert.deepEqual(ids(await reader.read("today", {})), ["ID-1"]);
+  });
+
+  it("returns tags sorted by name", async () => {
+    assert.deepEqual((await reader.read("tags", {})).tags.map((t: any) => t.name), ["a_b", "home", "home/kitchen", "homework"]);
+  });
+
+  it("opens notes by id or title, in the x-callback shape", async () => {
+    const note = await reader.read("open-note", { id: "ID-1" });
+    assert.equal(note.note, "# Groceries\n- [ ] milk 100%");
+    assert.deepEqual(note.tags, ["home"]);
+    assert.equal(note.is_trashed, false);
+    assert.equal((await reader.read("open-note", { title: "recipes" })).identifier, "ID-2");
+    assert.equal((await reader.read("open-note", { id: "ID-3" })).is_trashed, true);
+    await assert.rejects(reader.read("open-note", { id: "ID-3", exclude_trashed: "yes" }), NotFoundError);
+  });
+
+  it("refuses encrypted notes with LockedError", async () => {
+    await assert.rejects(reader.read("open-note", { id: "ID-4" }), LockedError);
+    // Its title is still listed, as in Bear
+    assert.ok(ids(await reader.read("search", { term: "secret" })).includes("ID-4"));
+  });
+
+  it("only handles headless reads", () => {
+    assert.equal(reader.handles("open-note", { id: "ID-1", open_note: "no", show_window: "no" }), true);
+    assert.equal(reader.handles("search", { term: "x" }), true);
+
+    assert.equal(reader.handles("open-note", { id: "ID-1" }), false);
+    assert.equal(reader.handles("search", { term: "x", show_window: "yes" }), false);
+    for (const key of ["new_window", "edit", "pin", "float", "header", "search", "selected"]) {
+      const value = ["header", "search", "selected"].includes(key) ? "x" : "yes";
+      assert.equal(reader.handles("open-note", { id: "ID-1", open_note: "no", [key]: value }), false, key);
+    }
+    assert.equal(reader.handles("create", { title: "x" }), false);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BearNote } from "../src/notes.js";
+import { buildTagTree, editDistance, findNearDuplicates } from "../src/tag-tree.js";
+
+function note(identifier: string, tags: string[], modificationDate?: string): BearNote {
+  return { identifier, title: identifier, tags, pin: false, is_trashed: false, modificationDate };
+}
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and swaps as one edit each", () => {
+    assert.equal(editDistance("", ""), 0);
+    assert.equal(editDistance("", "abc"), 3);
+    assert.equal(editDistance("meeting", "meetings"), 1);
+    assert.equal(editDistance("project", "projct"), 1);
+    assert.equal(editDistance("recipe", "recipi"), 1);
+    assert.equal(editDistance("receive", "recieve"), 1);
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("abc", "cba"), 2);
+  });
+
+  it("is symmetric", () => {
+    for (const [a, b] of [["travel", "travle"], ["work", "wrok"], ["a", "xyz"]]) {
+      assert.equal(editDistance(a, b), editDistance(b, a));
+    }
+  });
+});
+
+describe("buildTagTree", () => {
+  it("nests tags, counting direct and nested notes and the latest use", () => {
+    const tree = buildTagTree(["work/old", "home"], [
+      note("1", ["work"], "2024-01-01T00:00:00Z"),
+      note("2", ["work/calls"], "2024-03-01T00:00:00Z"),
+      note("3", ["work/calls", "work"], "2024-02-01T00:00:00Z"),
+    ]);
+
+    assert.deepEqual(tree.map((n) => n.name), ["home", "work"]);
+    const work = tree[1];
+    assert.deepEqual([work.count, work.total, work.last_used], [2, 3, "2024-03-01T00:00:00Z"]);
+    assert.deepEqual(work.children.map((n) => [n.label, n.count, n.total]), [["calls", 2, 2], ["old", 0, 0]]);
+    assert.equal(tree[0].last_used, undefined);
+  });
+});
+
+function pairs(tags: string[], counts: Record<string, number> = {}) {
+  const notes = tags.flatMap((tag) => Array.from({ length: counts[tag] ?? 1 }, (_, i) => note(`${tag}-${i}`, [tag])));
+  return findNearDuplicates(buildTagTree(tags, notes)).map((d) => `${d.reason}: ${d.merge.name} → ${d.merge.new_name}`);
+}
+
+describe("findNearDuplicates", () => {
+  it("finds case, plural and typo variants, merging into the more used tag", () => {
+    assert.deepEqual(pairs(["Work", "work"], { Work: 3 }), ["case: work → Work"]);
+    assert.deepEqual(pairs(["recipe", "recipes"], { recipes: 2 }), ["plural: recipe → recipes"]);
+    assert.deepEqual(pairs(["stories", "story"]), ["plural: stories → story"]);
+    assert.deepEqual(pairs(["boxes", "box"]), ["plural: boxes → box"]);
+    assert.deepEqual(pairs(["travel", "travle"], { travel: 5 }), ["typo: travle → travel"]);
+  });
+
+  it("prefers the lowercase, then the shorter tag on a tie", () => {
+    assert.deepEqual(pairs(["Ideas", "ideas"]), ["case: Ideas → ideas"]);
+    assert.deepEqual(pairs(["meeting", "meetings"]), ["plural: meetings → meeting"]);
+  });
+
+  it("leaves short tags, unrelated tags and tags under different parents alone", () => {
+    assert.deepEqual(pairs(["todo", "toto"]), []);
+    assert.deepEqual(pairs(["work", "home"]), []);
+    assert.deepEqual(pairs(["projects/alpha", "archive/alpha"]), []);
+    assert.deepEqual(pairs(["a/project", "b/projects"]), []);
+  });
+
+  it("compares nested siblings and merges children of case variants along with them", () => {
+    assert.deepEqual(pairs(["work/meeting", "work/meetings"]), ["plural: work/meetings → work/meeting"]);
+    assert.deepEqual(pairs(["Work/calls", "work/calls"]), ["case: Work → work"]);
+  });
+});
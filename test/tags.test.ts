@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NotFoundError } from "../src/errors.js";
+import { ToolRegistry } from "../src/registry.js";
+import { extractTags, formatTag, stripTag } from "../src/tags.js";
+import { builtinTools } from "../src/tools.js";
+import { cannedReplies, fakeBear } from "./helpers.js";
+
+describe("stripTag", () => {
+  it("closes the gap the tag leaves", () => {
+    assert.deepEqual(stripTag("text #work here", "work"), { text: "text here", removed: 1 });
+    assert.equal(stripTag("text #work, and", "work").text, "text, and");
+    assert.equal(stripTag("#work starts the line", "work").text, "starts the line");
+    assert.equal(stripTag("ends with #work", "work").text, "ends with");
+    assert.equal(stripTag("- item #work\n  indented #work too", "work").text, "- item\n  indented too");
+  });
+
+  it("drops lines that held nothing but tags", () => {
+    assert.equal(stripTag("# Title\n#work\nbody", "work").text, "# Title\nbody");
+    assert.equal(stripTag("# Title\n#work #work\nbody", "work").text, "# Title\nbody");
+    assert.equal(stripTag("# Title\n\nbody\n", "work").text, "# Title\n\nbody\n");
+  });
+
+  it("leaves nested tags and tags that merely share a prefix", () => {
+    const { text, removed } = stripTag("#work #work/meetings #workshop #Work.", "work");
+    assert.equal(text, "#work/meetings #workshop.");
+    assert.equal(removed, 2);
+    assert.equal(stripTag("#work/meetings and #work", "work/meetings").text, "and #work");
+  });
+
+  it("removes #multi word# tags", () => {
+    assert.equal(stripTag("see #reading list# later", "reading list").text, "see later");
+    assert.equal(stripTag("see #reading list later", "reading list").removed, 0);
+    assert.equal(stripTag("closed #work# form", "work").text, "closed form");
+  });
+
+  it("leaves code spans and fenced code alone", () => {
+    const note = "`#work` and #work\n```\n#work\n```\n~~~sh\necho #work\n~~~\nafter #work";
+    const { text, removed } = stripTag(note, "work");
+    assert.equal(text, "`#work` and\n```\n#work\n```\n~~~sh\necho #work\n~~~\nafter");
+    assert.equal(removed, 2);
+  });
+});
+
+describe("extractTags and formatTag", () => {
+  it("finds open, nested and closed tags once each", () => {
+    assert.deepEqual(extractTags("#a, #b/c #multi word# and #a again, not a tag: #"), ["a", "b/c", "multi word"]);
+  });
+
+  it("closes tags that contain spaces", () => {
+    assert.equal(formatTag("work"), "#work");
+    assert.equal(formatTag("reading list"), "#reading list#");
+  });
+});
+
+describe("bear_pin_note", () => {
+  const registry = new ToolRegistry();
+  builtinTools.forEach((tool) => registry.register(tool));
+
+  it("pins through open-note and waits for Bear's answer", async () => {
+    const { bear, launcher } = fakeBear(cannedReplies({ "open-note": { identifier: "ID-1", title: "Groceries" } }));
+    const result = await registry.call("bear_pin_note", { title: "Groceries" }, bear);
+
+    assert.equal(result.content[0].text, 'Pinned note "Groceries" [ID-1]');
+    assert.equal(launcher.launched[0].params.pin, "yes");
+    assert.ok(launcher.launched[0].params["x-error"]);
+  });
+
+  it("reports a missing note", async () => {
+    const { bear } = fakeBear(cannedReplies({ "open-note": { errorCode: "1", errorMessage: "Note not found" } }));
+    await assert.rejects(registry.call("bear_pin_note", { id: "MISSING" }, bear), NotFoundError);
+  });
+});
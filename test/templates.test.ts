@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { isoWeek, NoteTemplate, renderTemplate, TemplateStore } from "../src/templates.js";
+import { tempDir } from "./helpers.js";
+
+describe("isoWeek", () => {
+  it("numbers weeks from the one holding the year's first Thursday", () => {
+    assert.equal(isoWeek(new Date(2024, 0, 3)), "2024-W01");
+    assert.equal(isoWeek(new Date(2024, 1, 14)), "2024-W07");
+    assert.equal(isoWeek(new Date(2021, 0, 3)), "2020-W53");
+    assert.equal(isoWeek(new Date(2024, 11, 30)), "2025-W01");
+    assert.equal(isoWeek(new Date(2026, 11, 31)), "2026-W53");
+    assert.equal(isoWeek(new Date(2023, 0, 1)), "2022-W52");
+  });
+});
+
+const MEETING: NoteTemplate = {
+  name: "meeting",
+  title: "{{person}} 1:1 {{date}}",
+  tags: ["meetings"],
+  pin: false,
+  body: "## {{title}}\nWeek {{week}}, {{time}}\n{{topics}}\n{{ unknown-ok }}",
+  variables: ["person", "topics", "unknown-ok"],
+};
+
+const NOW = new Date(2024, 1, 14, 9, 5);
+
+describe("renderTemplate", () => {
+  it("fills in built-in and passed variables", () => {
+    const rendered = renderTemplate(MEETING, { person: "Sam", topics: "- hiring", "unknown-ok": "x" }, NOW);
+    assert.deepEqual(rendered, {
+      title: "Sam 1:1 2024-02-14",
+      text: "## Sam 1:1 2024-02-14\nWeek 2024-W07, 09:05\n- hiring\nx",
+      tags: ["meetings"],
+      pin: false,
+    });
+  });
+
+  it("lets variables override built-ins and the title", () => {
+    const vars = { person: "Sam", topics: "", "unknown-ok": "", date: "2023-12-01" };
+    assert.equal(renderTemplate(MEETING, vars, NOW).title, "Sam 1:1 2023-12-01");
+
+    const titled = renderTemplate(MEETING, { ...vars, title: "Custom" }, NOW);
+    assert.equal(titled.title, "Custom");
+    assert.match(titled.text, /^## Custom\n/);
+  });
+
+  it("names every missing variable", () => {
+    assert.throws(() => renderTemplate(MEETING, { person: "Sam" }, NOW), /needs values for: topics, unknown-ok/);
+  });
+
+  it("keeps a literal $ in values", () => {
+    const rendered = renderTemplate({ ...MEETING, variables: ["person"], body: "{{person}}" }, { person: "$& $1 $$" }, NOW);
+    assert.equal(rendered.text, "$& $1 $$");
+  });
+});
+
+describe("TemplateStore", () => {
+  it("loads templates with their front matter and needed variables", () => {
+    const dir = tempDir();
+    writeFileSync(join(dir, "Weekly.md"), "---\ntitle: Week {{week}}\ntags: [review, weekly]\npin: yes\ndescription: Weekly review\n---\n{{wins}} {{title}} {{date}}\n");
+    writeFileSync(join(dir, "notes.txt"), "ignored");
+
+    const store = new TemplateStore(dir);
+    assert.deepEqual(store.list().map((t) => t.name), ["Weekly"]);
+    const weekly = store.get("weekly");
+    assert.deepEqual(
+      [weekly.title, weekly.tags, weekly.pin, weekly.description, weekly.variables],
+      ["Week {{week}}", ["review", "weekly"], true, "Weekly review", ["wins"]]
+    );
+    assert.throws(() => store.get("daily"), /Unknown template: daily. Available: Weekly/);
+    assert.deepEqual(new TemplateStore(join(dir, "missing")).list(), []);
+  });
+});
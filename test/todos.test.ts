@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ToolRegistry } from "../src/registry.js";
+import { builtinTools } from "../src/tools.js";
+import { parseTodos } from "../src/todos.js";
+import { fakeBear, structured } from "./helpers.js";
+
+const NOTE = { identifier: "ID-1", title: "Plan" };
+
+const TEXT = [
+  "# Plan",
+  "- [ ] write report #work due 2024-03-01",
+  "  - [x] outline",
+  "  - plain bullet",
+  "    * [ ] nested under a plain bullet",
+  "1. [ ] numbered",
+  "2) [X] numbered, done",
+  "+ [ ] plus",
+  "```",
+  "- [ ] inside a fence",
+  "```",
+  "Paragraph",
+  "   - [ ] after a paragraph",
+  "- [] not a checkbox",
+  "[ ] not a list item",
+].join("\n");
+
+describe("parseTodos", () => {
+  const todos = parseTodos(NOTE, TEXT);
+
+  it("finds checkboxes in bulleted and numbered lists, outside code fences", () => {
+    assert.deepEqual(todos.map((t) => [t.line, t.text, t.done]), [
+      [2, "write report #work due 2024-03-01", false],
+      [3, "outline", true],
+      [5, "nested under a plain bullet", false],
+      [6, "numbered", false],
+      [7, "numbered, done", true],
+      [8, "plus", false],
+      [13, "after a paragraph", false],
+    ]);
+  });
+
+  it("follows list nesting, restarting after unindented text", () => {
+    assert.deepEqual(todos.map((t) => t.level), [0, 1, 2, 0, 0, 0, 0]);
+  });
+
+  it("collects tags and dates", () => {
+    assert.deepEqual(todos[0].tags, ["work"]);
+    assert.deepEqual(todos[0].dates, ["2024-03-01"]);
+    assert.deepEqual(parseTodos(NOTE, "- [ ] call 2024/05/06")[0].dates, ["2024-05-06"]);
+  });
+});
+
+describe("bear_list_todos and bear_toggle_todo", () => {
+  const registry = new ToolRegistry();
+  builtinTools.forEach((tool) => registry.register(tool));
+
+  function todoBear() {
+    return fakeBear((action, params) =>
+      action === "open-note"
+        ? { type: "success", params: { identifier: params.id ?? "ID-1", title: "Plan", note: TEXT } }
+        : { type: "success" }
+    );
+  }
+
+  it("filters by status and tag", async () => {
+    const { bear } = todoBear();
+    const open = structured(await registry.call("bear_list_todos", { id: "ID-1" }, bear));
+    assert.equal(open.total, 5);
+    const done = structured(await registry.call("bear_list_todos", { id: "ID-1", status: "done" }, bear));
+    assert.deepEqual(done.todos.map((t: any) => t.text), ["outline", "numbered, done"]);
+    const tagged = structured(await registry.call("bear_list_todos", { id: "ID-1", tag: "#Work" }, bear));
+    assert.deepEqual(tagged.todos.map((t: any) => t.line), [2]);
+  });
+
+  it("checks a numbered item", async () => {
+    const { bear, launcher } = todoBear();
+    await registry.call("bear_toggle_todo", { id: "ID-1", text: "numbered", line: 6 }, bear);
+    const written = launcher.launched.find((l) => l.action === "add-text")!;
+    assert.equal(written.params.text.split("\n")[5], "1. [x] numbered");
+    assert.equal(written.params.mode, "replace_all");
+  });
+
+  it("refuses ambiguous text and stale lines", async () => {
+    const { bear, launcher } = todoBear();
+    await assert.rejects(registry.call("bear_toggle_todo", { id: "ID-1", text: "numbered" }, bear), /matches 2 todos/);
+    await assert.rejects(registry.call("bear_toggle_todo", { id: "ID-1", line: 6, text: "plus" }, bear), /doesn't contain "plus"/);
+    await assert.rejects(registry.call("bear_toggle_todo", { id: "ID-1", line: 4 }, bear), /not a todo item/);
+    assert.ok(launcher.launched.every((l) => l.action === "open-note"));
+  });
+
+  it("leaves an item that already has the requested state", async () => {
+    const { bear, launcher } = todoBear();
+    const result = await registry.call("bear_toggle_todo", { id: "ID-1", line: 3, done: true }, bear);
+    assert.match(structured(result).message, /already checked/);
+    assert.ok(launcher.launched.every((l) => l.action === "open-note"));
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NotFoundError, UserCancelledError } from "../src/errors.js";
+import { ToolRegistry } from "../src/registry.js";
+import { builtinTools } from "../src/tools.js";
+import { cannedReplies, fakeBear, structured } from "./helpers.js";
+
+const registry = new ToolRegistry();
+builtinTools.forEach((tool) => registry.register(tool));
+
+const NOTES = [
+  { title: "Groceries", identifier: "ID-1", tags: ["home"], modificationDate: "2024-01-02T10:00:00Z", pin: "yes" },
+  { title: "Standup", identifier: "ID-2", tags: ["work/meetings"], modificationDate: "2024-01-03T09:00:00Z", pin: "no" },
+];
+
+describe("tools through ToolRegistry, BearClient and FakeLauncher", () => {
+  it("bear_search returns Bear's notes, normalized", async () => {
+    const { bear, launcher } = fakeBear(cannedReplies({ search: { notes: NOTES } }));
+    const result = await registry.call("bear_search", { term: "gro ceries", tag: "home" }, bear);
+    const data = structured(result);
+
+    assert.equal(data.total, 2);
+    assert.deepEqual(data.notes.map((n: any) => n.identifier), ["ID-2", "ID-1"]);
+    assert.equal(data.notes[1].pin, true);
+    assert.deepEqual(data.notes[1].tags, ["home"]);
+    assert.match(result.content[1].text, /Groceries \[ID-1\]/);
+
+    const [call] = launcher.launched;
+    assert.equal(call.action, "search");
+    assert.equal(call.params.term, "gro ceries");
+    assert.equal(call.params.tag, "home");
+    assert.equal(call.params.token, "TEST-TOKEN");
+    assert.match(call.params["x-success"], /^http:\/\/localhost:\d+\/callback\/[\w-]+\/success$/);
+  });
+
+  it("bear_open_note returns the note and passes its options on", async () => {
+    const { bear, launcher } = fakeBear(cannedReplies({
+      "open-note": {
+        note: "# Groceries\n- [ ] milk",
+        identifier: "ID-1",
+        title: "Groceries",
+        tags: ["home"],
+        is_trashed: "no",
+        modificationDate: "2024-01-02T10:00:00Z",
+      },
+    }));
+    const result = await registry.call("bear_open_note", { id: "ID-1", new_window: true, header: "List" }, bear);
+    const note = structured(result);
+
+    assert.equal(note.identifier, "ID-1");
+    assert.equal(note.note, "# Groceries\n- [ ] milk");
+    assert.equal(note.is_trashed, false);
+    assert.equal(launcher.launched[0].params.new_window, "yes");
+    assert.equal(launcher.launched[0].params.header, "List");
+  });
+
+  it("maps x-error to NotFoundError", async () => {
+    const { bear } = fakeBear(cannedReplies({ "open-note": { errorCode: "1", errorMessage: "Note not found" } }));
+    await assert.rejects(registry.call("bear_open_note", { id: "MISSING" }, bear), (error) => {
+      assert.ok(error instanceof NotFoundError);
+      assert.equal(error.bearErrorMessage, "Note not found");
+      return true;
+    });
+  });
+
+  it("maps x-cancel to UserCancelledError", async () => {
+    const { bear } = fakeBear(() => ({ type: "cancel" }));
+    await assert.rejects(registry.call("bear_search", { term: "x" }, bear), UserCancelledError);
+  });
+
+  it("bear_add_text can clear a note with an empty text", async () => {
+    const { bear, launcher } = fakeBear();
+    await registry.call("bear_add_text", { id: "ID-1", text: "", mode: "replace_all" }, bear);
+    assert.equal(launcher.launched[0].action, "add-text");
+    assert.equal(launcher.launched[0].params.text, "");
+    assert.equal(launcher.launched[0].params.mode, "replace_all");
+  });
+
+  it("rejects invalid arguments before calling Bear", async () => {
+    const { bear, launcher } = fakeBear();
+    await assert.rejects(registry.call("bear_open_note", { id: 42 }, bear), /id/);
+    await assert.rejects(registry.call("bear_no_such_tool", {}, bear), /Unknown tool/);
+    assert.equal(launcher.launched.length, 0);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ObjectSchema, validateArgs } from "../src/validation.js";
+
+const schema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    text: { type: "string" },
+    mode: { type: "string", enum: ["append", "replace_all"] },
+    limit: { type: "integer", minimum: 1, maximum: 10 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["text"],
+  anyOf: [{ required: ["id"] }, { required: ["title"] }],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+describe("validateArgs", () => {
+  it("accepts an empty string for a required argument", () => {
+    assert.deepEqual(validateArgs("t", schema, { id: "A", text: "" }), { id: "A", text: "" });
+  });
+
+  it("treats undefined and null as missing", () => {
+    assert.throws(() => validateArgs("t", schema, { id: "A" }), /text: is required/);
+    assert.throws(() => validateArgs("t", schema, { id: "A", text: null }), /text: is required/);
+  });
+
+  it("needs a non-empty value for one of the alternatives", () => {
+    assert.throws(() => validateArgs("t", schema, { text: "x" }), /one of id, title is required/);
+    assert.throws(() => validateArgs("t", schema, { id: "", text: "x" }), /one of id, title is required/);
+    assert.doesNotThrow(() => validateArgs("t", schema, { id: "", title: "Note", text: "x" }));
+  });
+
+  it("reports every invalid field at once", () => {
+    assert.throws(
+      () => validateArgs("t", schema, { id: 1, text: "x", mode: "prepend", limit: 11, tags: ["a", 2], extra: true }),
+      (error: Error) => {
+        for (const part of ["id: must be a string", "mode: must be one of", "limit: must be at most 10", "tags[1]: must be a string", "extra: is not a recognized"]) {
+          assert.ok(error.message.includes(part), part);
+        }
+        return true;
+      }
+    );
+  });
+});